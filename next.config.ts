@@ -1,5 +1,8 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  // pdf-parse loads its bundled pdf.js build with a dynamic require, and gtts
+  // pulls in the legacy request library
+  serverExternalPackages: ['pdf-parse', 'gtts'],
   experimental: {
     serverActions: {
       bodySizeLimit: '10mb', // Increase body size limit to 10MB
@@ -1,65 +1,68 @@
 // src/app/api/analyze-document/route.ts
 
 import { NextRequest, NextResponse } from "next/server";
-import { Pinecone } from "@pinecone-database/pinecone";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-// Initialize Google AI
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY as string);
-
-// Analysis prompts for different types
-const analysisPrompts = {
-  summarize: `You are a legal document analyzer. Provide a clear, concise summary of this legal document in plain English. Focus on:
-- What type of document this is
-- Main parties involved
-- Key obligations and rights
-- Important dates or deadlines
-- Overall purpose and scope
-
-Keep the summary accessible to non-lawyers.`,
-
-  detailed: `You are a legal expert providing detailed analysis. Analyze this legal document comprehensively, covering:
-- Document structure and sections
-- Legal implications of each major clause
-- Rights and obligations of all parties
-- Potential consequences and enforcement mechanisms
-- Important legal terminology explanations
-- Risk factors and protections
-
-Provide thorough but understandable explanations.`,
-
-  risks: `You are a legal risk analyst. Identify and explain potential risks and red flags in this legal document:
-- Financial risks and liabilities
-- Legal vulnerabilities
-- Unfavorable terms or clauses
-- Potential disputes or conflicts
-- Missing protections or safeguards
-- Recommendations for risk mitigation
-
-Rate each risk as HIGH, MEDIUM, or LOW and explain why.`,
-
-  "key-terms": `You are a legal document interpreter. Extract and explain the most important terms and clauses:
-- Define complex legal terminology
-- Explain key obligations and rights
-- Highlight critical deadlines and conditions
-- Identify penalty or consequence clauses
-- Point out any unusual or non-standard terms
-
-Make technical language accessible to general audiences.`,
-
-  "plain-english": `You are a legal translator. Convert the complex legal language in this document into plain English:
-- Replace legal jargon with everyday language
-- Simplify complex sentence structures
-- Explain what each section actually means in practice
-- Use analogies or examples where helpful
-- Maintain the essential legal meaning while making it understandable
-
-Focus on clarity and accessibility.`
+import { VectorStoreError } from "@/lib/vectorStore";
+import { LlmUnavailableError, generateText, streamText } from "@/lib/llm";
+import { SSE_HEADERS, encodeEvent } from "@/lib/sse";
+import { OrderedChunk, StoredDocument, findDocument, getDocumentChunks } from "@/lib/documents";
+import { describeChange, diffDocuments } from "@/lib/documentDiff";
+import { AuthError, authErrorResponse, authenticate } from "@/lib/auth";
+import { NewAnalysis, StoredAnalysis, findCachedAnalysis, saveAnalysis } from "@/lib/analysisHistory";
+import { AnalysisTemplate, TemplateOutputFormat } from "@/lib/analysisTemplates";
+import { getTemplate } from "@/lib/templateRegistry";
+import { getPlaybook } from "@/lib/playbooks";
+import { describeChunkLocation } from "@/lib/chunking";
+import { Language, OUTPUT_LANGUAGES, findLanguage, outputLanguageInstruction } from "@/lib/language";
+import {
+  AnalysisCoverage,
+  AnalysisProgress,
+  PreparedAnalysis,
+  formatChunk,
+  groupByLength,
+  prepareWholeDocumentAnalysis,
+} from "@/lib/documentAnalysis";
+import {
+  RISK_SCHEMA_VERSION,
+  RiskItem,
+  SEVERITY_ORDER,
+  formatRiskAssessment,
+  parseRiskAssessment,
+} from "@/lib/riskAssessment";
+import {
+  ENTITY_SCHEMA_VERSION,
+  formatEntityExtraction,
+  mergeEntityExtractions,
+  parseEntityExtraction,
+} from "@/lib/entityExtraction";
+import {
+  COMPARISON_SCHEMA_VERSION,
+  Playbook,
+  formatPlaybookComparison,
+  formatPlaybookRules,
+  mergePlaybookFindings,
+  parsePlaybookFindings,
+} from "@/lib/playbookComparison";
+
+// How the free-text output formats should be written
+const formatInstructions: Partial<Record<TemplateOutputFormat, string>> = {
+  markdown: "Format your response in Markdown, using headings and bullet lists where they help.",
+  "plain-text": "Write plain text without Markdown formatting.",
+  "change-explanation": "Format your response in Markdown, using headings and bullet lists where they help.",
 };
 
+// Asks the model to use the section, clause and page labels attached to each excerpt
+const citationInstruction = "Each excerpt is labelled with its chunk number and, where known, its section, clause number or page. When you refer to a provision, cite it by that label (for example \"Section 4.2\" or \"Page 3\").";
+
+// The fields of a stored analysis that come from generating it
+type AnalysisOutput = Omit<NewAnalysis, "analysisType" | "promptVersion" | "outputLanguage" | "documentId" | "fileName" | "comparedWith">;
+
+// Persists a finished analysis; resolves to null when it could not be stored
+type SaveAnalysis = (output: AnalysisOutput) => Promise<StoredAnalysis | null>;
+
 export async function POST(request: NextRequest) {
   try {
-    const { analysisType, fileName } = await request.json();
+    const user = await authenticate(request);
+    const { analysisType, fileName, stream, outputLanguage = "en", regenerate = false, playbookId, compareTo } = await request.json();
 
     if (!analysisType || !fileName) {
       return NextResponse.json(
@@ -68,141 +71,203 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Initialize Pinecone
-    const pinecone = new Pinecone({
-      apiKey: process.env.PINECONE_API_KEY as string,
-    });
-    const index = pinecone.Index(process.env.PINECONE_INDEX_NAME as string);
+    const template = await getTemplate(String(analysisType));
+    if (!template) {
+      return NextResponse.json(
+        { success: false, error: "Unknown analysis type", details: `No template with id "${analysisType}"` },
+        { status: 400 }
+      );
+    }
+
+    const language = findLanguage(String(outputLanguage));
+    if (!language) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Unsupported output language",
+          details: `Supported languages: ${OUTPUT_LANGUAGES.map(entry => entry.code).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
 
-    // Create a query embedding using Google's embedding model
-    const queryText = `${analysisType} analysis of ${fileName}`;
-    
-    let queryEmbedding: number[];
-    try {
-      const embeddingModel = genAI.getGenerativeModel({ model: "text-embedding-004" });
-      const result = await embeddingModel.embedContent(queryText);
-      
-      if (result.embedding && result.embedding.values) {
-        queryEmbedding = result.embedding.values;
-      } else {
-        throw new Error("Failed to generate query embedding");
+    // Playbook comparisons need one of the user's playbooks to compare against
+    let playbook: Playbook | null = null;
+    if (template.outputFormat === "playbook-comparison") {
+      if (!playbookId) {
+        return NextResponse.json(
+          { success: false, error: "Missing playbook id" },
+          { status: 400 }
+        );
       }
-    } catch (error) {
-      console.error("Error generating query embedding:", error);
-      // Fallback: use dummy embedding
-      queryEmbedding = new Array(768).fill(0).map(() => Math.random() * 0.01);
-    }
-
-    // Query Pinecone for relevant document chunks
-    const queryResponse = await index.query({
-      vector: queryEmbedding,
-      topK: 20, // Get more chunks for comprehensive analysis
-      includeMetadata: true,
-      filter: {
-        filename: { $eq: fileName }
+      playbook = await getPlaybook(user.uid, String(playbookId));
+      if (!playbook) {
+        return NextResponse.json(
+          { success: false, error: "Playbook not found" },
+          { status: 404 }
+        );
       }
-    });
+    }
 
-    if (!queryResponse.matches || queryResponse.matches.length === 0) {
+    // Change explanations need the earlier version to compare with
+    let earlierVersion: StoredDocument | null = null;
+    if (template.outputFormat === "change-explanation") {
+      if (!compareTo) {
+        return NextResponse.json(
+          { success: false, error: "Missing the earlier version to compare with" },
+          { status: 400 }
+        );
+      }
+      earlierVersion = await findDocument(user.uid, String(compareTo));
+      if (!earlierVersion) {
+        return NextResponse.json(
+          { success: false, error: "Earlier version not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    // Analyses read the whole document in order rather than a similarity sample
+    const document = await getDocumentChunks(user.uid, fileName);
+    const { documentId } = document;
+    let { chunks, totalChunks } = document;
+
+    if (chunks.length === 0) {
       return NextResponse.json(
         { success: false, error: "Document not found in database" },
         { status: 404 }
       );
     }
 
-    // Combine relevant chunks
-    const relevantContent = queryResponse.matches
-      .map(match => match.metadata?.content)
-      .filter(content => content)
-      .join('\n\n');
+    // Repeat requests are served from the stored result unless a regenerate is asked for
+    const promptVersion = playbook
+      ? `v${template.version}:${playbook.id}`
+      : earlierVersion
+      ? `v${template.version}:${earlierVersion.documentId}`
+      : `v${template.version}`;
+    const key = { analysisType, promptVersion, outputLanguage: language.code };
+    if (documentId && !regenerate) {
+      const cached = await findCachedAnalysis(user.uid, documentId, key);
+      if (cached) {
+        return NextResponse.json(cachedResponse(cached));
+      }
+    }
 
-    if (!relevantContent) {
-      return NextResponse.json(
-        { success: false, error: "No content found for analysis" },
-        { status: 404 }
-      );
+    const save: SaveAnalysis = async output => {
+      if (!documentId) return null;
+      try {
+        return await saveAnalysis(user.uid, {
+          ...key,
+          documentId,
+          fileName,
+          ...output,
+          ...(earlierVersion && { comparedWith: { documentId: earlierVersion.documentId, fileName: earlierVersion.fileName } }),
+        });
+      } catch (saveError) {
+        console.error("Failed to store analysis:", saveError);
+        return null;
+      }
+    };
+
+    // Risk assessments are returned as validated, machine-readable JSON
+    if (template.outputFormat === "risk-table") {
+      return assessRisks(template, fileName, chunks, totalChunks, language, save);
     }
 
-    // Get the appropriate prompt
-    const systemPrompt = analysisPrompts[analysisType as keyof typeof analysisPrompts] 
-      || analysisPrompts.summarize;
+    // Entity extraction returns typed records for parties, dates, amounts and terms
+    if (template.outputFormat === "entity-records") {
+      return extractEntities(template, fileName, chunks, totalChunks, language, save);
+    }
 
-    // Use Gemini 1.5 Flash for analysis (current model)
-    try {
-      // Try Gemini 1.5 Flash first (most common and available)
-      const model = genAI.getGenerativeModel({ 
-        model: "gemini-1.5-flash",
-        generationConfig: {
-          maxOutputTokens: 4000,
-          temperature: 0.1,
-        }
+    // Playbook comparisons report, rule by rule, where the contract departs from our positions
+    if (playbook) {
+      return comparePlaybook(template, playbook, fileName, chunks, totalChunks, language, save);
+    }
+
+    // The model reads the clauses that differ from the earlier version in place of the document
+    if (earlierVersion) {
+      chunks = await changedClauses(user.uid, earlierVersion, chunks);
+      totalChunks = chunks.length;
+      if (chunks.length === 0) {
+        return NextResponse.json(outputResponse({ content: NO_CHANGES, model: "none" }, analysisType, fileName, language.code));
+      }
+    }
+
+    const instructions = [template.prompt, formatInstructions[template.outputFormat], citationInstruction, outputLanguageInstruction(language)]
+      .filter(Boolean)
+      .join("\n\n");
+    const prepare = (onProgress?: (progress: AnalysisProgress) => void) =>
+      prepareWholeDocumentAnalysis(
+        instructions,
+        chunks,
+        totalChunks,
+        onProgress
+      );
+
+    const generationOptions = {
+      maxOutputTokens: 4000,
+      temperature: 0.1,
+    };
+    const fallbackText = basicAnalysis(fileName, template.name, chunks.length, chunks.map(chunk => chunk.content).join("\n\n"));
+
+    if (stream) {
+      return streamAnalysis(prepare, generationOptions, save, {
+        analysisType,
+        fileName,
+        chunksAnalyzed: chunks.length,
+        totalChunks,
+        outputLanguage: language.code,
+        fallbackText,
       });
-      
-      const prompt = `${systemPrompt}\n\nDocument Content:\n${relevantContent}`;
-      
-      const result = await model.generateContent(prompt);
-      const analysis = result.response.text();
+    }
+
+    try {
+      const { prompt, coverage } = await prepare();
+      const result = await generateText(prompt, generationOptions);
+      const stored = await save({ content: result.text, model: result.model, provider: result.provider, coverage });
 
       return NextResponse.json({
         success: true,
-        analysis: analysis,
+        analysis: result.text,
         analysisType: analysisType,
         fileName: fileName,
-        chunksAnalyzed: queryResponse.matches.length,
+        chunksAnalyzed: chunks.length,
+        coverage,
+        outputLanguage: language.code,
+        model: result.model,
+        provider: result.provider,
+        ...(stored && { analysisId: stored.id, createdAt: stored.createdAt }),
+        ...(result.usedFallback && { note: FALLBACK_NOTE }),
       });
 
     } catch (modelError) {
-      console.error("Gemini 1.5 Flash error, trying fallback:", modelError);
-      
-      try {
-        // Fallback to Gemini 1.5 Pro
-        const fallbackModel = genAI.getGenerativeModel({ 
-          model: "gemini-1.5-pro",
-          generationConfig: {
-            maxOutputTokens: 4000,
-            temperature: 0.1,
-          }
-        });
-        
-        const prompt = `${systemPrompt}\n\nDocument Content:\n${relevantContent}`;
-        const result = await fallbackModel.generateContent(prompt);
-        const analysis = result.response.text();
-
-        return NextResponse.json({
-          success: true,
-          analysis: analysis,
-          analysisType: analysisType,
-          fileName: fileName,
-          chunksAnalyzed: queryResponse.matches.length,
-          note: "Used fallback model due to primary model unavailability"
-        });
+      if (!(modelError instanceof LlmUnavailableError)) throw modelError;
+      console.error("All generation models failed:", modelError);
 
-      } catch (fallbackError) {
-        console.error("All Gemini models failed:", fallbackError);
-        
-        // Return a basic analysis if AI models fail
-        return NextResponse.json({
-          success: true,
-          analysis: `Document Analysis for ${fileName}
-          
-Analysis Type: ${formatAnalysisType(analysisType)}
-
-Content Summary:
-The document contains ${queryResponse.matches.length} sections of content. 
+      // Return a basic analysis if AI models fail
+      return NextResponse.json({
+        success: true,
+        analysis: fallbackText,
+        analysisType: analysisType,
+        fileName: fileName,
+        chunksAnalyzed: chunks.length,
+        model: "none",
+        warning: UNAVAILABLE_WARNING
+      });
+    }
 
-Key Content Preview:
-${relevantContent.substring(0, 500)}...
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
 
-Note: AI analysis is currently unavailable. This is a basic content extraction. Please try again later for full AI-powered analysis.`,
-          analysisType: analysisType,
-          fileName: fileName,
-          chunksAnalyzed: queryResponse.matches.length,
-          warning: "AI analysis unavailable - showing basic content extraction"
-        });
-      }
+    if (error instanceof VectorStoreError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: 503 }
+      );
     }
 
-  } catch (error) {
     console.error("Analysis error:", error);
     return NextResponse.json(
       {
@@ -215,20 +280,306 @@ Note: AI analysis is currently unavailable. This is a basic content extraction.
   }
 }
 
-// Helper function to format analysis type names
-function formatAnalysisType(type: string): string {
-  switch (type) {
-    case "summarize":
-      return "Document Summary";
-    case "detailed":
-      return "Detailed Analysis";
-    case "risks":
-      return "Risk Assessment";
-    case "key-terms":
-      return "Key Terms & Clauses";
-    case "plain-english":
-      return "Plain English Translation";
-    default:
-      return type.charAt(0).toUpperCase() + type.slice(1);
+// The clauses added, removed or changed since an earlier version, written out
+// as chunks so they go through the usual analysis. Each is labelled with its clause.
+async function changedClauses(ownerId: string, earlierVersion: StoredDocument, chunks: OrderedChunk[]): Promise<OrderedChunk[]> {
+  const earlier = await getDocumentChunks(ownerId, earlierVersion.fileName);
+  return diffDocuments(earlier.chunks, chunks)
+    .filter(clause => clause.change !== "unchanged")
+    .map((clause, index) => ({
+      chunkIndex: index,
+      content: describeChange(clause),
+      section: clause.newLabel || clause.oldLabel,
+    }));
+}
+
+// Run a structured (JSON) analysis over every chunk, one context-sized part at a
+// time. A part is asked once more if its reply does not parse, and skipped
+// (reducing coverage) if the retry fails too. Returns the parsed parts, or the
+// error response to send when nothing could be analyzed.
+async function runStructuredAnalysis<T>(
+  instructions: string,
+  chunks: OrderedChunk[],
+  totalChunks: number,
+  parse: (text: string, chunks: Map<number, string>) => T,
+  label: string
+): Promise<{ parts: T[]; coverage: AnalysisCoverage; model: string; provider: string } | NextResponse> {
+  const groups = groupByLength(chunks, formatChunk);
+  const parts: T[] = [];
+  let chunksAnalyzed = 0;
+  let result;
+
+  try {
+    for (const group of groups) {
+      const texts = new Map(group.map(chunk => [chunk.chunkIndex, chunk.content]));
+      const prompt = `${instructions}\n\nDocument Content:\n${group.map(formatChunk).join("\n\n")}`;
+
+      for (let attempt = 1; attempt <= 2; attempt++) {
+        result = await generateText(prompt, { maxOutputTokens: 4000, temperature: 0.1, json: true });
+        try {
+          parts.push(parse(result.text, texts));
+          chunksAnalyzed += group.length;
+          break;
+        } catch (parseError) {
+          console.error(`${label} attempt ${attempt} returned invalid JSON:`, parseError);
+        }
+      }
+    }
+  } catch (modelError) {
+    if (!(modelError instanceof LlmUnavailableError)) throw modelError;
+    console.error("All generation models failed:", modelError);
+    return NextResponse.json(
+      { success: false, error: "AI analysis is currently unavailable. Please try again later." },
+      { status: 503 }
+    );
+  }
+
+  if (chunksAnalyzed === 0 || !result) {
+    return NextResponse.json(
+      { success: false, error: `The model did not return a valid ${label.toLowerCase()}. Please try again.` },
+      { status: 502 }
+    );
+  }
+
+  return {
+    parts,
+    coverage: {
+      chunksAnalyzed,
+      totalChunks,
+      strategy: groups.length > 1 ? "map-reduce" : "single-pass",
+      intermediateCalls: 0,
+    },
+    model: result.model,
+    provider: result.provider,
+  };
+}
+
+// Asks for free-text fields in the output language while keeping the JSON machine-readable
+function structuredLanguageInstruction(language: Language, enumFields: string): string {
+  return `${outputLanguageInstruction(language)} Keep the JSON keys and the ${enumFields} values in English.`;
+}
+
+async function assessRisks(
+  template: AnalysisTemplate,
+  fileName: string,
+  chunks: OrderedChunk[],
+  totalChunks: number,
+  language: Language,
+  save: SaveAnalysis
+) {
+  const run = await runStructuredAnalysis(
+    `${template.prompt}\n\n${structuredLanguageInstruction(language, "severity and category")}`,
+    chunks,
+    totalChunks,
+    parseRiskAssessment,
+    "Risk assessment"
+  );
+  if (run instanceof NextResponse) return run;
+
+  const risks: RiskItem[] = run.parts.flat();
+  risks.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+  const output = {
+    content: formatRiskAssessment(risks),
+    model: run.model,
+    provider: run.provider,
+    coverage: run.coverage,
+    schemaVersion: RISK_SCHEMA_VERSION,
+    risks,
+  };
+  const stored = await save(output);
+
+  return NextResponse.json({
+    ...outputResponse(output, template.id, fileName, language.code),
+    ...(stored && { analysisId: stored.id, createdAt: stored.createdAt }),
+  });
+}
+
+async function extractEntities(
+  template: AnalysisTemplate,
+  fileName: string,
+  chunks: OrderedChunk[],
+  totalChunks: number,
+  language: Language,
+  save: SaveAnalysis
+) {
+  const run = await runStructuredAnalysis(
+    `${template.prompt}\n\n${structuredLanguageInstruction(language, "kind, unit, purpose, currency and date")}`,
+    chunks,
+    totalChunks,
+    parseEntityExtraction,
+    "Entity extraction"
+  );
+  if (run instanceof NextResponse) return run;
+
+  const entities = mergeEntityExtractions(run.parts);
+
+  const output = {
+    content: formatEntityExtraction(entities),
+    model: run.model,
+    provider: run.provider,
+    coverage: run.coverage,
+    schemaVersion: ENTITY_SCHEMA_VERSION,
+    entities,
+  };
+  const stored = await save(output);
+
+  return NextResponse.json({
+    ...outputResponse(output, template.id, fileName, language.code),
+    ...(stored && { analysisId: stored.id, createdAt: stored.createdAt }),
+  });
+}
+
+async function comparePlaybook(
+  template: AnalysisTemplate,
+  playbook: Playbook,
+  fileName: string,
+  chunks: OrderedChunk[],
+  totalChunks: number,
+  language: Language,
+  save: SaveAnalysis
+) {
+  const run = await runStructuredAnalysis(
+    `${template.prompt}\n\n${formatPlaybookRules(playbook.rules)}\n\n${structuredLanguageInstruction(language, "ruleId and status")}`,
+    chunks,
+    totalChunks,
+    (text, texts) => parsePlaybookFindings(text, texts, playbook.rules),
+    "Playbook comparison"
+  );
+  if (run instanceof NextResponse) return run;
+
+  // Cite each clause by the section, clause and page recorded for its chunk
+  const locations = new Map(chunks.map(chunk => [chunk.chunkIndex, describeChunkLocation(chunk)]));
+  const complete = run.coverage.chunksAnalyzed >= run.coverage.totalChunks;
+  const findings = mergePlaybookFindings(run.parts, playbook.rules, complete).map(finding => {
+    const location = finding.chunkIndex !== undefined ? locations.get(finding.chunkIndex) : undefined;
+    return location ? { ...finding, location } : finding;
+  });
+  const comparison = {
+    schemaVersion: COMPARISON_SCHEMA_VERSION,
+    playbookId: playbook.id,
+    playbookName: playbook.name,
+    findings,
+  };
+
+  const output = {
+    content: formatPlaybookComparison(comparison),
+    model: run.model,
+    provider: run.provider,
+    coverage: run.coverage,
+    schemaVersion: COMPARISON_SCHEMA_VERSION,
+    comparison,
+  };
+  const stored = await save(output);
+
+  return NextResponse.json({
+    ...outputResponse(output, template.id, fileName, language.code),
+    ...(stored && { analysisId: stored.id, createdAt: stored.createdAt }),
+  });
+}
+
+// Response body for a generated analysis, in the shape the analyses have always returned
+function outputResponse(output: AnalysisOutput, analysisType: string, fileName: string, outputLanguage: string) {
+  const { content, coverage, ...rest } = output;
+  return {
+    success: true,
+    analysis: content,
+    analysisType,
+    fileName,
+    chunksAnalyzed: coverage?.chunksAnalyzed,
+    coverage,
+    outputLanguage,
+    ...rest,
+  };
+}
+
+// Response body for an analysis served from the history instead of the model
+function cachedResponse(stored: StoredAnalysis) {
+  const { id, createdAt, analysisType, fileName, outputLanguage, content, model, provider, coverage, schemaVersion, risks, entities, comparison, comparedWith } = stored;
+  return {
+    ...outputResponse({ content, model, provider, coverage, schemaVersion, risks, entities, comparison }, analysisType, fileName, outputLanguage),
+    ...(comparedWith && { comparedWith }),
+    analysisId: id,
+    createdAt,
+    cached: true,
+  };
+}
+
+const NO_CHANGES = "The two versions have the same wording; there are no changes to explain.";
+const FALLBACK_NOTE = "Used fallback model due to primary model unavailability";
+const UNAVAILABLE_WARNING = "AI analysis unavailable - showing basic content extraction";
+
+// Plain content extraction returned when no model is available
+function basicAnalysis(fileName: string, analysisName: string, chunkCount: number, relevantContent: string): string {
+  return `Document Analysis for ${fileName}
+          
+Analysis Type: ${analysisName}
+
+Content Summary:
+The document contains ${chunkCount} sections of content. 
+
+Key Content Preview:
+${relevantContent.substring(0, 500)}...
+
+Note: AI analysis is currently unavailable. This is a basic content extraction. Please try again later for full AI-powered analysis.`;
+}
+
+// Stream the analysis as Server-Sent Events: "progress" events report the parts
+// read so far on long documents, "token" events carry text as it is generated,
+// then a single "done" event carries the metadata, or "error" on failure.
+function streamAnalysis(
+  prepare: (onProgress: (progress: AnalysisProgress) => void) => Promise<PreparedAnalysis>,
+  options: { maxOutputTokens: number; temperature: number },
+  save: SaveAnalysis,
+  details: {
+    analysisType: string;
+    fileName: string;
+    chunksAnalyzed: number;
+    totalChunks: number;
+    outputLanguage: string;
+    fallbackText: string;
   }
-}
\ No newline at end of file
+): Response {
+  const { fallbackText, ...metadata } = details;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        const { prompt, coverage } = await prepare(progress => {
+          controller.enqueue(encodeEvent("progress", progress));
+        });
+        const result = await streamText(prompt, options);
+        let content = "";
+        for await (const text of result.stream) {
+          content += text;
+          controller.enqueue(encodeEvent("token", { text }));
+        }
+        const stored = await save({ content, model: result.model, provider: result.provider, coverage });
+        controller.enqueue(encodeEvent("done", {
+          ...metadata,
+          coverage,
+          model: result.model,
+          provider: result.provider,
+          ...(stored && { analysisId: stored.id, createdAt: stored.createdAt }),
+          ...(result.usedFallback && { note: FALLBACK_NOTE }),
+        }));
+      } catch (error) {
+        if (error instanceof LlmUnavailableError) {
+          console.error("All generation models failed:", error);
+          controller.enqueue(encodeEvent("token", { text: fallbackText }));
+          controller.enqueue(encodeEvent("done", { ...metadata, model: "none", warning: UNAVAILABLE_WARNING }));
+        } else {
+          console.error("Streaming analysis error:", error);
+          controller.enqueue(encodeEvent("error", {
+            error: "Failed to analyze document",
+            details: error instanceof Error ? error.message : "Unknown error",
+          }));
+        }
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, { headers: SSE_HEADERS });
+}
@@ -0,0 +1,200 @@
+// src/app/api/chat-document/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { ChunkLocation, describeChunkLocation } from "@/lib/chunking";
+import { findDocument, ownedBy } from "@/lib/documents";
+import { VectorStoreError, getVectorStore } from "@/lib/vectorStore";
+import { LlmUnavailableError, embedText, generateText } from "@/lib/llm";
+import {
+  ChatCitation,
+  ChatMessage,
+  appendChatMessages,
+  clearChatHistory,
+  getChatHistory,
+} from "@/lib/chatHistory";
+import { AuthError, authErrorResponse, authenticate } from "@/lib/auth";
+
+// Number of document chunks retrieved for each question
+const CONTEXT_CHUNKS = 6;
+
+// Number of earlier messages included so follow-up questions make sense
+const HISTORY_MESSAGES = 8;
+
+const chatPrompt = `You are a legal assistant answering questions about a single legal document.
+Answer only from the document excerpts below. If the excerpts do not contain the answer, say so plainly.
+Each excerpt starts with a label such as [Chunk 3]. Cite every excerpt you rely on by writing its label, for example [Chunk 3], right after the statement it supports.
+Answer in plain English that a non-lawyer can follow.`;
+
+function errorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof AuthError) {
+    return authErrorResponse(error);
+  }
+
+  if (error instanceof VectorStoreError) {
+    return NextResponse.json(
+      { success: false, error: error.message, details: error.details },
+      { status: 503 }
+    );
+  }
+
+  if (error instanceof LlmUnavailableError) {
+    console.error("All models failed:", error);
+    return NextResponse.json(
+      { success: false, error: "AI models are currently unavailable. Please try again later." },
+      { status: 503 }
+    );
+  }
+
+  console.error("Chat error:", error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: fallbackMessage,
+      details: error instanceof Error ? error.message : "Unknown error",
+    },
+    { status: 500 }
+  );
+}
+
+// Return the stored conversation for a document
+export async function GET(request: NextRequest) {
+  try {
+    const user = await authenticate(request);
+    const documentId = request.nextUrl.searchParams.get("documentId");
+    if (!documentId) {
+      return NextResponse.json(
+        { success: false, error: "Missing document id" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, documentId, messages: await getChatHistory(user.uid, documentId) });
+  } catch (error) {
+    return errorResponse(error, "Failed to load chat history");
+  }
+}
+
+// Answer a question about a document from its most relevant chunks
+export async function POST(request: NextRequest) {
+  try {
+    const user = await authenticate(request);
+    const { documentId, question } = await request.json();
+
+    if (typeof documentId !== "string" || !documentId || typeof question !== "string" || !question.trim()) {
+      return NextResponse.json(
+        { success: false, error: "Missing document id or question" },
+        { status: 400 }
+      );
+    }
+
+    const document = await findDocument(user.uid, documentId);
+    if (!document) {
+      return NextResponse.json(
+        { success: false, error: "Document not found in database" },
+        { status: 404 }
+      );
+    }
+
+    const history = await getChatHistory(user.uid, documentId);
+    const recentHistory = history.slice(-HISTORY_MESSAGES);
+
+    // Fold the previous question into retrieval so "what about the tenant?" still finds the right clauses
+    const previousQuestion = [...recentHistory].reverse().find(message => message.role === "user");
+    const retrievalText = previousQuestion ? `${previousQuestion.content}\n${question}` : question;
+
+    const queryEmbedding = (await embedText(retrievalText)).values;
+    const matches = await getVectorStore().query({
+      vector: queryEmbedding,
+      topK: CONTEXT_CHUNKS,
+      filter: ownedBy(user.uid, { documentId: { $eq: documentId } }),
+    });
+
+    if (matches.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "None of this document's text has been embedded yet" },
+        { status: 409 }
+      );
+    }
+
+    // Present excerpts in document order, each labelled with its chunk index
+    const excerpts = matches
+      .filter(match => match.metadata.content)
+      .map(match => ({
+        chunkIndex: Number(match.metadata.chunkIndex),
+        content: String(match.metadata.content),
+        location: describeChunkLocation(match.metadata as ChunkLocation),
+      }))
+      .sort((a, b) => a.chunkIndex - b.chunkIndex);
+
+    const context = excerpts
+      .map(excerpt => `[Chunk ${excerpt.chunkIndex}]${excerpt.location ? ` (${excerpt.location})` : ""}\n${excerpt.content}`)
+      .join("\n\n");
+
+    const conversation = recentHistory
+      .map(message => `${message.role === "user" ? "User" : "Assistant"}: ${message.content}`)
+      .join("\n");
+
+    const prompt = `${chatPrompt}
+
+Document Excerpts:
+${context}
+${conversation ? `\nConversation so far:\n${conversation}\n` : ""}
+User: ${question}
+Assistant:`;
+
+    const result = await generateText(prompt, { maxOutputTokens: 1500, temperature: 0.1 });
+    const answer = result.text.trim();
+    const model = result.model;
+
+    // Keep only citations that point at excerpts the model was actually given
+    const citedIndexes = new Set(
+      Array.from(answer.matchAll(/\[Chunk\s+(\d+)\]/gi)).map(match => Number(match[1]))
+    );
+    const citations: ChatCitation[] = excerpts
+      .filter(excerpt => citedIndexes.has(excerpt.chunkIndex))
+      .map(excerpt => ({
+        chunkIndex: excerpt.chunkIndex,
+        excerpt: excerpt.content.slice(0, 300),
+        ...(excerpt.location && { location: excerpt.location }),
+      }));
+
+    const timestamp = new Date().toISOString();
+    const answerMessage: ChatMessage = { role: "assistant", content: answer, timestamp, citations, model };
+    await appendChatMessages(user.uid, documentId, [
+      { role: "user", content: question.trim(), timestamp },
+      answerMessage,
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      documentId,
+      fileName: document.fileName,
+      answer,
+      citations,
+      model,
+      chunksRetrieved: excerpts.length,
+    });
+
+  } catch (error) {
+    return errorResponse(error, "Failed to answer question");
+  }
+}
+
+// Clear the stored conversation for a document
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await authenticate(request);
+    const documentId = request.nextUrl.searchParams.get("documentId");
+    if (!documentId) {
+      return NextResponse.json(
+        { success: false, error: "Missing document id" },
+        { status: 400 }
+      );
+    }
+
+    await clearChatHistory(user.uid, documentId);
+    return NextResponse.json({ success: true, documentId });
+  } catch (error) {
+    return errorResponse(error, "Failed to clear chat history");
+  }
+}
@@ -0,0 +1,71 @@
+// src/app/api/document-diff/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { VectorStoreError } from "@/lib/vectorStore";
+import { findDocument, getDocumentChunks, getDocumentVersions } from "@/lib/documents";
+import { DocumentDiff, countChanges, diffDocuments } from "@/lib/documentDiff";
+import { AuthError, authErrorResponse, authenticate } from "@/lib/auth";
+
+// Clause-by-clause differences between two of the user's documents, usually
+// two versions of one agreement: GET /api/document-diff?from=<documentId>&to=<documentId>
+export async function GET(request: NextRequest) {
+  try {
+    const user = await authenticate(request);
+    const from = request.nextUrl.searchParams.get("from");
+    const to = request.nextUrl.searchParams.get("to");
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { success: false, error: "Missing from or to document id" },
+        { status: 400 }
+      );
+    }
+
+    const [fromDocument, toDocument] = await Promise.all([findDocument(user.uid, from), findDocument(user.uid, to)]);
+    if (!fromDocument || !toDocument) {
+      return NextResponse.json(
+        { success: false, error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    const [fromChunks, toChunks, versions] = await Promise.all([
+      getDocumentChunks(user.uid, fromDocument.fileName),
+      getDocumentChunks(user.uid, toDocument.fileName),
+      getDocumentVersions(user.uid, to),
+    ]);
+    const versionOf = (documentId: string) => versions.find(version => version.documentId === documentId)?.version;
+
+    const clauses = diffDocuments(fromChunks.chunks, toChunks.chunks);
+    const diff: DocumentDiff = {
+      from: { documentId: from, fileName: fromDocument.fileName, version: versionOf(from) },
+      to: { documentId: to, fileName: toDocument.fileName, version: versionOf(to) },
+      clauses,
+      counts: countChanges(clauses),
+    };
+
+    return NextResponse.json({ success: true, diff });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    if (error instanceof VectorStoreError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: 503 }
+      );
+    }
+
+    console.error("Document diff error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to compare documents",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
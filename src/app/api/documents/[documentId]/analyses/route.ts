@@ -0,0 +1,54 @@
+// src/app/api/documents/[documentId]/analyses/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { VectorStoreError } from "@/lib/vectorStore";
+import { findDocument } from "@/lib/documents";
+import { getAnalysisHistory } from "@/lib/analysisHistory";
+import { AuthError, authErrorResponse, authenticate } from "@/lib/auth";
+
+// Past analyses of a document, oldest first. Pass ?analysisType= to list one kind only.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const user = await authenticate(request);
+    const { documentId } = await params;
+    const analysisType = request.nextUrl.searchParams.get("analysisType");
+
+    const document = await findDocument(user.uid, documentId);
+    if (!document) {
+      return NextResponse.json(
+        { success: false, error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    const analyses = (await getAnalysisHistory(user.uid, documentId))
+      .filter(analysis => !analysisType || analysis.analysisType === analysisType);
+
+    return NextResponse.json({ success: true, documentId, fileName: document.fileName, analyses });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    if (error instanceof VectorStoreError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: 503 }
+      );
+    }
+
+    console.error("Analysis history error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to load analysis history",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
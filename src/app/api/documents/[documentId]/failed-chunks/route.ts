@@ -0,0 +1,103 @@
+// src/app/api/documents/[documentId]/failed-chunks/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { VectorStoreError } from "@/lib/vectorStore";
+import { findDocument } from "@/lib/documents";
+import { getFailedChunks } from "@/lib/embeddingFailures";
+import { findActiveJob, startEmbeddingRetry } from "@/lib/ingestion";
+import { AuthError, authErrorResponse, authenticate } from "@/lib/auth";
+
+function errorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof AuthError) {
+    return authErrorResponse(error);
+  }
+
+  if (error instanceof VectorStoreError) {
+    return NextResponse.json(
+      { success: false, error: error.message, details: error.details },
+      { status: 503 }
+    );
+  }
+
+  console.error("Failed chunks error:", error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: fallbackMessage,
+      details: error instanceof Error ? error.message : "Unknown error",
+    },
+    { status: 500 }
+  );
+}
+
+const notFound = () =>
+  NextResponse.json(
+    { success: false, error: "Document not found" },
+    { status: 404 }
+  );
+
+// Chunks of the document that could not be embedded and why
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const user = await authenticate(request);
+    const { documentId } = await params;
+
+    const document = await findDocument(user.uid, documentId);
+    if (!document) return notFound();
+
+    const failures = await getFailedChunks(user.uid, documentId);
+    return NextResponse.json({
+      success: true,
+      documentId,
+      totalChunks: document.totalChunks,
+      chunksFailed: failures.length,
+      chunks: failures.map(({ chunkIndex, error, failedAt, attempts }) => ({ chunkIndex, error, failedAt, attempts })),
+    });
+  } catch (error) {
+    return errorResponse(error, "Failed to load failed chunks");
+  }
+}
+
+// Embed the failed chunks again in the background; progress is read from
+// /api/ingestion-jobs/[jobId] like an upload's
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const user = await authenticate(request);
+    const { documentId } = await params;
+
+    const document = await findDocument(user.uid, documentId);
+    if (!document) return notFound();
+
+    const activeJob = findActiveJob(user.uid, documentId);
+    if (activeJob) {
+      return NextResponse.json(
+        { success: false, error: "This document is already being processed", jobId: activeJob.jobId },
+        { status: 409 }
+      );
+    }
+
+    const job = await startEmbeddingRetry(user.uid, documentId, document.fileName);
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: "Every chunk of this document is already embedded" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      documentId,
+      jobId: job.jobId,
+      status: job.status,
+      chunksFailed: job.chunksTotal,
+    }, { status: 202 });
+  } catch (error) {
+    return errorResponse(error, "Failed to retry failed chunks");
+  }
+}
@@ -0,0 +1,97 @@
+// src/app/api/documents/[documentId]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { VectorStoreError } from "@/lib/vectorStore";
+import { deleteDocument, getDocumentDetail } from "@/lib/documents";
+import { AuthError, authErrorResponse, authenticate } from "@/lib/auth";
+
+// Details of one stored document: upload metadata, chunk counts and sections
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const user = await authenticate(request);
+    const { documentId } = await params;
+    const document = await getDocumentDetail(user.uid, documentId);
+
+    if (!document) {
+      return NextResponse.json(
+        { success: false, error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, document });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    if (error instanceof VectorStoreError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: 503 }
+      );
+    }
+
+    console.error("Document lookup error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to load document",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove a document's vectors and every artifact stored for it
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const user = await authenticate(request);
+    const { documentId } = await params;
+    const deleted = await deleteDocument(user.uid, documentId);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      documentId,
+      fileName: deleted.fileName,
+      vectorsDeleted: deleted.totalChunks,
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    if (error instanceof VectorStoreError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: 503 }
+      );
+    }
+
+    console.error("Delete error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to delete document",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+// src/app/api/documents/[documentId]/versions/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { VectorStoreError } from "@/lib/vectorStore";
+import { findDocument, getDocumentVersions } from "@/lib/documents";
+import { linkVersion, unlinkVersion } from "@/lib/documentVersions";
+import { AuthError, authErrorResponse, authenticate } from "@/lib/auth";
+
+function errorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof AuthError) {
+    return authErrorResponse(error);
+  }
+
+  if (error instanceof VectorStoreError) {
+    return NextResponse.json(
+      { success: false, error: error.message, details: error.details },
+      { status: 503 }
+    );
+  }
+
+  console.error("Document versions error:", error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: fallbackMessage,
+      details: error instanceof Error ? error.message : "Unknown error",
+    },
+    { status: 500 }
+  );
+}
+
+const notFound = () =>
+  NextResponse.json(
+    { success: false, error: "Document not found" },
+    { status: 404 }
+  );
+
+// Every version of the document, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const user = await authenticate(request);
+    const { documentId } = await params;
+
+    if (!(await findDocument(user.uid, documentId))) return notFound();
+    return NextResponse.json({ success: true, documentId, versions: await getDocumentVersions(user.uid, documentId) });
+  } catch (error) {
+    return errorResponse(error, "Failed to load document versions");
+  }
+}
+
+// Link the document as the newest version of another: { "previousDocumentId": "..." }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const user = await authenticate(request);
+    const { documentId } = await params;
+    const { previousDocumentId } = await request.json();
+
+    if (!previousDocumentId || previousDocumentId === documentId) {
+      return NextResponse.json(
+        { success: false, error: "Choose another document to link this one to" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !(await findDocument(user.uid, documentId)) ||
+      !(await findDocument(user.uid, String(previousDocumentId)))
+    ) {
+      return notFound();
+    }
+
+    await linkVersion(user.uid, documentId, String(previousDocumentId));
+    return NextResponse.json({ success: true, documentId, versions: await getDocumentVersions(user.uid, documentId) });
+  } catch (error) {
+    return errorResponse(error, "Failed to link document versions");
+  }
+}
+
+// Detach the document from its versions; the document itself is kept
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const user = await authenticate(request);
+    const { documentId } = await params;
+
+    if (!(await findDocument(user.uid, documentId))) return notFound();
+    await unlinkVersion(user.uid, documentId);
+    return NextResponse.json({ success: true, documentId, versions: await getDocumentVersions(user.uid, documentId) });
+  } catch (error) {
+    return errorResponse(error, "Failed to unlink document version");
+  }
+}
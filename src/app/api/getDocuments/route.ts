@@ -1,59 +1,91 @@
 // app/api/getDocuments/route.ts
 
-import { NextResponse } from "next/server";
-import { Pinecone } from "@pinecone-database/pinecone";
+import { NextRequest, NextResponse } from "next/server";
+import { VectorStoreError } from "@/lib/vectorStore";
+import { DocumentSort, queryDocuments } from "@/lib/documents";
+import { AuthError, authErrorResponse, authenticate } from "@/lib/auth";
 
-export async function GET() {
+const SORTS: DocumentSort[] = ["newest", "oldest", "name"];
+
+// Parse an optional date query parameter; undefined when absent, null when invalid
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// List the caller's stored documents. Query parameters: q (file name search),
+// extension (".pdf"), from / to (upload date range), sort (newest, oldest,
+// name), page and pageSize.
+export async function GET(request: NextRequest) {
   try {
-    // Initialize the Pinecone client
-    const pinecone = new Pinecone();
-    const pineconeIndex = pinecone.Index(process.env.PINECONE_INDEX_NAME as string);
-
-    // Query to get all documents with their metadata
-    // We'll use a dummy query to get all vectors
-    const queryResponse = await pineconeIndex.query({
-      vector: new Array(1536).fill(0), // OpenAI embeddings are 1536 dimensions
-      topK: 10000, // Large number to get all documents
-      includeMetadata: true,
-    });
+    const user = await authenticate(request);
+    const params = request.nextUrl.searchParams;
 
-    // Extract unique documents based on filename
-    const documentsMap = new Map();
-    
-    queryResponse.matches?.forEach((match) => {
-      const metadata = match.metadata;
-      if (metadata?.filename || metadata?.source) {
-        const filename = metadata.filename || metadata.source;
-        
-        if (!documentsMap.has(filename)) {
-          documentsMap.set(filename, {
-            name: filename,
-            size: metadata.fileSize || 0,
-            // uploadedAt: metadata.uploadDate ? new Date(metadata.uploadDate) : new Date(),
-            totalChunks: metadata.totalChunks || 0,
-          });
-        }
-      }
-    });
+    const sort = (params.get("sort") || "newest") as DocumentSort;
+    const page = Number(params.get("page") || 1);
+    const pageSize = Number(params.get("pageSize") || 20);
+    const uploadedAfter = parseDate(params.get("from"));
+    const uploadedBefore = parseDate(params.get("to"));
 
-    const documents = Array.from(documentsMap.values());
+    if (
+      !SORTS.includes(sort) ||
+      !Number.isInteger(page) ||
+      !Number.isInteger(pageSize) ||
+      uploadedAfter === null ||
+      uploadedBefore === null
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid query",
+          details: `sort must be one of ${SORTS.join(", ")}; page and pageSize must be integers; from and to must be dates`,
+        },
+        { status: 400 }
+      );
+    }
 
-    return NextResponse.json({ 
-      success: true, 
-      documents: documents.sort((a, b) => 
-        new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime()
-      )
+    const result = await queryDocuments(user.uid, {
+      search: params.get("q") || undefined,
+      extension: params.get("extension") || undefined,
+      uploadedAfter,
+      uploadedBefore,
+      sort,
+      page,
+      pageSize,
+    });
+
+    return NextResponse.json({
+      success: true,
+      documents: result.documents,
+      pagination: {
+        page: result.page,
+        pageSize: result.pageSize,
+        total: result.total,
+        totalPages: result.totalPages,
+      },
     });
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    if (error instanceof VectorStoreError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: 503 }
+      );
+    }
+
     console.error("Failed to fetch documents:", error);
     return NextResponse.json(
-      { 
-        success: false, 
-        error: "Failed to fetch documents", 
-        details: error instanceof Error ? error.message : "Unknown error" 
+      {
+        success: false,
+        error: "Failed to fetch documents",
+        details: error instanceof Error ? error.message : "Unknown error"
       },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,42 @@
+// src/app/api/ingestion-jobs/[jobId]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getIngestionJob } from "@/lib/ingestion";
+import { AuthError, authErrorResponse, authenticate } from "@/lib/auth";
+
+// Report progress of a background ingestion job
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const user = await authenticate(request);
+    const { jobId } = await params;
+    const job = await getIngestionJob(jobId);
+
+    // Other users' jobs are reported as missing rather than forbidden
+    if (!job || job.ownerId !== user.uid) {
+      return NextResponse.json(
+        { success: false, error: "Ingestion job not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, job });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error("Failed to read ingestion job:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to read ingestion job",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+// src/app/api/playbooks/[playbookId]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { deletePlaybook, getPlaybook } from "@/lib/playbooks";
+import { AuthError, authErrorResponse, authenticate } from "@/lib/auth";
+
+function errorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof AuthError) {
+    return authErrorResponse(error);
+  }
+
+  console.error("Playbook error:", error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: fallbackMessage,
+      details: error instanceof Error ? error.message : "Unknown error",
+    },
+    { status: 500 }
+  );
+}
+
+const notFound = () =>
+  NextResponse.json(
+    { success: false, error: "Playbook not found" },
+    { status: 404 }
+  );
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ playbookId: string }> }
+) {
+  try {
+    const user = await authenticate(request);
+    const { playbookId } = await params;
+    const playbook = await getPlaybook(user.uid, playbookId);
+
+    if (!playbook) return notFound();
+    return NextResponse.json({ success: true, playbook });
+  } catch (error) {
+    return errorResponse(error, "Failed to load playbook");
+  }
+}
+
+// Comparisons already run against the playbook stay in the analysis history
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ playbookId: string }> }
+) {
+  try {
+    const user = await authenticate(request);
+    const { playbookId } = await params;
+    const removed = await deletePlaybook(user.uid, playbookId);
+
+    if (!removed) return notFound();
+    return NextResponse.json({ success: true, playbookId: removed.id });
+  } catch (error) {
+    return errorResponse(error, "Failed to delete playbook");
+  }
+}
@@ -0,0 +1,127 @@
+// src/app/api/playbooks/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DocumentExtractionError,
+  SUPPORTED_EXTENSIONS,
+  extractDocument,
+  isSupportedFile,
+} from "@/lib/extraction";
+import { PLAYBOOK_LIMITS, parsePlaybookRules } from "@/lib/playbookComparison";
+import { createPlaybook, listPlaybooks } from "@/lib/playbooks";
+import { AuthError, authErrorResponse, authenticate } from "@/lib/auth";
+
+function errorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof AuthError) {
+    return authErrorResponse(error);
+  }
+
+  if (error instanceof DocumentExtractionError) {
+    return NextResponse.json(
+      { success: false, error: error.message, code: error.code },
+      { status: 422 }
+    );
+  }
+
+  console.error("Playbook error:", error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: fallbackMessage,
+      details: error instanceof Error ? error.message : "Unknown error",
+    },
+    { status: 500 }
+  );
+}
+
+// The signed-in user's playbooks
+export async function GET(request: NextRequest) {
+  try {
+    const user = await authenticate(request);
+    return NextResponse.json({ success: true, playbooks: await listPlaybooks(user.uid) });
+  } catch (error) {
+    return errorResponse(error, "Failed to load playbooks");
+  }
+}
+
+// Add a playbook, either from rules sent as JSON ({ name, rules }) or from an
+// uploaded document sent as multipart form data ("document" and an optional "name")
+export async function POST(request: NextRequest) {
+  try {
+    const user = await authenticate(request);
+    let name: string;
+    let text: string;
+    let sourceFileName: string | undefined;
+
+    if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const file = formData.get("document");
+
+      if (!(file instanceof File)) {
+        return NextResponse.json(
+          { success: false, error: "No file provided" },
+          { status: 400 }
+        );
+      }
+
+      if (file.size > 5 * 1024 * 1024) {
+        return NextResponse.json(
+          { success: false, error: "File size too large. Maximum size is 5MB." },
+          { status: 400 }
+        );
+      }
+
+      if (!isSupportedFile(file.name)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Unsupported file type. Supported formats: ${SUPPORTED_EXTENSIONS.join(", ")}`,
+            code: "UNSUPPORTED_FILE_TYPE",
+          },
+          { status: 400 }
+        );
+      }
+
+      text = (await extractDocument(file)).text;
+      sourceFileName = file.name;
+      name = String(formData.get("name") || "").trim() || file.name.replace(/\.[^.]+$/, "");
+    } else {
+      const body = await request.json();
+      name = typeof body.name === "string" ? body.name.trim() : "";
+      text = typeof body.rules === "string" ? body.rules : "";
+    }
+
+    if (!name || name.length > PLAYBOOK_LIMITS.name) {
+      return NextResponse.json(
+        { success: false, error: `A name of at most ${PLAYBOOK_LIMITS.name} characters is required` },
+        { status: 400 }
+      );
+    }
+
+    if (text.length > PLAYBOOK_LIMITS.text) {
+      return NextResponse.json(
+        { success: false, error: `Playbooks are limited to ${PLAYBOOK_LIMITS.text} characters of rules` },
+        { status: 400 }
+      );
+    }
+
+    const rules = parsePlaybookRules(text);
+    if (rules.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "No rules found",
+          details: "Write one rule per paragraph or list item, for example \"Governing law: English law and courts.\"",
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, playbook: await createPlaybook(user.uid, { name, rules, sourceFileName }) },
+      { status: 201 }
+    );
+  } catch (error) {
+    return errorResponse(error, "Failed to create playbook");
+  }
+}
@@ -0,0 +1,9 @@
+// src/app/api/risk-assessment/schema/route.ts
+
+import { NextResponse } from "next/server";
+import { riskAssessmentSchema } from "@/lib/riskAssessment";
+
+// JSON Schema for the structured output of the "risks" analysis
+export async function GET() {
+  return NextResponse.json(riskAssessmentSchema);
+}
@@ -0,0 +1,56 @@
+// src/app/api/search/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { VectorStoreError } from "@/lib/vectorStore";
+import { MAX_SEARCH_RESULTS, searchDocuments } from "@/lib/search";
+import { AuthError, authErrorResponse, authenticate } from "@/lib/auth";
+
+// Longest query accepted; search terms, not whole passages
+const MAX_QUERY_CHARS = 500;
+
+// Search the text of every document the caller has stored. Query parameters:
+// q (the search text) and limit (results to return, default 10).
+export async function GET(request: NextRequest) {
+  try {
+    const user = await authenticate(request);
+    const params = request.nextUrl.searchParams;
+    const query = (params.get("q") || "").trim();
+    const limit = Number(params.get("limit") || 10);
+
+    if (!query || query.length > MAX_QUERY_CHARS || !Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_RESULTS) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid query",
+          details: `q must be 1 to ${MAX_QUERY_CHARS} characters; limit must be an integer from 1 to ${MAX_SEARCH_RESULTS}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { results, semantic } = await searchDocuments(user.uid, query, limit);
+    return NextResponse.json({ success: true, query, semantic, results });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    if (error instanceof VectorStoreError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: 503 }
+      );
+    }
+
+    console.error("Search error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Search failed",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+// src/app/api/templates/[templateId]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { validateTemplateInput } from "@/lib/analysisTemplates";
+import {
+  TemplateError,
+  TemplateErrorCode,
+  deleteTemplate,
+  getTemplate,
+  updateTemplate,
+} from "@/lib/templateRegistry";
+import { AuthError, authErrorResponse, authenticate } from "@/lib/auth";
+
+const STATUS_BY_CODE: Record<TemplateErrorCode, number> = {
+  NOT_FOUND: 404,
+  READ_ONLY: 403,
+  FORBIDDEN: 403,
+  DUPLICATE_NAME: 409,
+};
+
+function errorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof AuthError) {
+    return authErrorResponse(error);
+  }
+
+  if (error instanceof TemplateError) {
+    return NextResponse.json(
+      { success: false, error: error.message, code: error.code },
+      { status: STATUS_BY_CODE[error.code] }
+    );
+  }
+
+  console.error("Template error:", error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: fallbackMessage,
+      details: error instanceof Error ? error.message : "Unknown error",
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    await authenticate(request);
+    const { templateId } = await params;
+    const template = await getTemplate(templateId);
+
+    if (!template) {
+      return NextResponse.json(
+        { success: false, error: "Template not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, template });
+  } catch (error) {
+    return errorResponse(error, "Failed to load template");
+  }
+}
+
+// Replace a template's fields; its version goes up so stored results are not reused
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const user = await authenticate(request);
+    const { templateId } = await params;
+    const { input, errors } = validateTemplateInput(await request.json());
+
+    if (!input) {
+      return NextResponse.json(
+        { success: false, error: "Invalid template", details: errors.join("; ") },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, template: await updateTemplate(user.uid, templateId, input) });
+  } catch (error) {
+    return errorResponse(error, "Failed to update template");
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const user = await authenticate(request);
+    const { templateId } = await params;
+    const removed = await deleteTemplate(user.uid, templateId);
+
+    return NextResponse.json({ success: true, templateId: removed.id });
+  } catch (error) {
+    return errorResponse(error, "Failed to delete template");
+  }
+}
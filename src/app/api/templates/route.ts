@@ -0,0 +1,61 @@
+// src/app/api/templates/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { validateTemplateInput } from "@/lib/analysisTemplates";
+import { TemplateError, createTemplate, listTemplates } from "@/lib/templateRegistry";
+import { AuthError, authErrorResponse, authenticate } from "@/lib/auth";
+
+function errorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof AuthError) {
+    return authErrorResponse(error);
+  }
+
+  if (error instanceof TemplateError) {
+    return NextResponse.json(
+      { success: false, error: error.message, code: error.code },
+      { status: error.code === "DUPLICATE_NAME" ? 409 : 400 }
+    );
+  }
+
+  console.error("Template error:", error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: fallbackMessage,
+      details: error instanceof Error ? error.message : "Unknown error",
+    },
+    { status: 500 }
+  );
+}
+
+// Every analysis template: the built-in ones, then those added by users
+export async function GET(request: NextRequest) {
+  try {
+    await authenticate(request);
+    return NextResponse.json({ success: true, templates: await listTemplates() });
+  } catch (error) {
+    return errorResponse(error, "Failed to load templates");
+  }
+}
+
+// Add a template; it becomes available to every user straight away
+export async function POST(request: NextRequest) {
+  try {
+    const user = await authenticate(request);
+    const { input, errors } = validateTemplateInput(await request.json());
+
+    if (!input) {
+      return NextResponse.json(
+        { success: false, error: "Invalid template", details: errors.join("; ") },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, template: await createTemplate(user.uid, input) },
+      { status: 201 }
+    );
+  } catch (error) {
+    return errorResponse(error, "Failed to create template");
+  }
+}
@@ -0,0 +1,61 @@
+// src/app/api/tts/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { SpeechError, synthesizeSpeech } from "@/lib/tts";
+import { AuthError, authErrorResponse, authenticate } from "@/lib/auth";
+
+// Read text aloud: { "text": "...", "language": "en", "voice": "uk" }.
+// Responds with MP3 audio, streamed as it is generated.
+export async function POST(request: NextRequest) {
+  try {
+    await authenticate(request);
+    const { text, language = "en", voice } = await request.json();
+
+    if (typeof text !== "string" || !text.trim()) {
+      return NextResponse.json(
+        { success: false, error: "No text to read aloud" },
+        { status: 400 }
+      );
+    }
+
+    const audio = await synthesizeSpeech({
+      text,
+      language: String(language),
+      voice: typeof voice === "string" ? voice : undefined,
+    });
+
+    return new Response(audio.stream, {
+      headers: {
+        "Content-Type": "audio/mpeg",
+        "Cache-Control": "private, max-age=86400",
+        "X-Speech-Voice": audio.voice.locale,
+        "X-Speech-Cache": audio.cached ? "hit" : "miss",
+        ...(audio.size !== undefined && { "Content-Length": String(audio.size) }),
+        // Bytes of audio per sentence segment, which the player uses to follow along
+        ...(audio.segmentBytes && { "X-Speech-Segments": audio.segmentBytes.join(",") }),
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    if (error instanceof SpeechError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: error.code === "UPSTREAM_FAILED" ? 502 : 400 }
+      );
+    }
+
+    console.error("Text to speech error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to generate speech",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
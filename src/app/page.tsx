@@ -1,48 +1,259 @@
 "use client";
 
-import { useState, useRef } from "react";
+import { useCallback, useEffect, useState, useRef } from "react";
+import { User, onAuthStateChanged, signOut } from "firebase/auth";
 import {
   Upload,
   FileText,
   Brain,
-  Search,
-  AlertTriangle,
   CheckCircle,
   Loader2,
-  Download,
-  Eye,
+  Trash2,
+  LogOut,
+  RefreshCw,
+  AlertTriangle,
 } from "lucide-react";
 
-import TtsPlayer from 
-"../components/TtsPlayer";
+import AnalysisContent from "../components/AnalysisContent";
+import MarkdownContent from "../components/MarkdownContent";
+import DocumentChat from "../components/DocumentChat";
+import RiskTable from "../components/RiskTable";
+import EntityTable from "../components/EntityTable";
+import ComparisonTable from "../components/ComparisonTable";
+import ExportMenu from "../components/ExportMenu";
+import DocumentLibrary from "../components/DocumentLibrary";
+import LibrarySearch from "../components/LibrarySearch";
+import SignIn from "../components/SignIn";
+import AnalysisOptions from "../components/AnalysisOptions";
+import PlaybookPanel from "../components/PlaybookPanel";
+import VersionPanel from "../components/VersionPanel";
+import DiffView from "../components/DiffView";
+import TemplateIcon from "../components/TemplateIcon";
+import { auth, authFetch } from "../lib/firebase";
+import {
+  SUPPORTED_EXTENSIONS,
+  SUPPORTED_FILE_ACCEPT,
+  SUPPORTED_FORMATS_LABEL,
+  isSupportedFile,
+} from "../lib/fileTypes";
+import { readServerSentEvents } from "../lib/sse";
+import { parseMarkdown } from "../lib/markdown";
+import type { RiskItem } from "../lib/riskAssessment";
+import type { EntityExtraction } from "../lib/entityExtraction";
+import type { PlaybookComparison } from "../lib/playbookComparison";
+import type { AnalysisCoverage, AnalysisProgress } from "../lib/documentAnalysis";
+import type { DocumentSummary } from "../lib/documents";
+import type { DocumentDiff } from "../lib/documentDiff";
+import type { StoredAnalysis } from "../lib/analysisHistory";
+import type { AnalysisTemplate } from "../lib/analysisTemplates";
+import { ExportableAnalysis, LEGAL_DISCLAIMER } from "../lib/analysisExport";
 
 interface AnalysisResult {
+  id: string;
   type: string;
+  fileName: string;
   content: string;
+  // Language the analysis is written in, used to read it aloud
+  outputLanguage?: string;
   timestamp: Date;
+  model?: string;
+  isStreaming?: boolean;
+  risks?: RiskItem[];
+  entities?: EntityExtraction;
+  comparison?: PlaybookComparison;
+  // The earlier version an explanation of changes compares with
+  comparedWith?: { documentId: string; fileName: string };
+  coverage?: AnalysisCoverage;
+  // Parts read so far while a long document is being worked through
+  progress?: AnalysisProgress;
+  // Served from the stored history rather than generated for this request
+  cached?: boolean;
+}
+
+function fromStored(stored: StoredAnalysis): AnalysisResult {
+  return {
+    id: stored.id,
+    type: stored.analysisType,
+    fileName: stored.fileName,
+    content: stored.content,
+    outputLanguage: stored.outputLanguage,
+    timestamp: new Date(stored.createdAt),
+    model: stored.model,
+    risks: stored.risks,
+    entities: stored.entities,
+    comparison: stored.comparison,
+    comparedWith: stored.comparedWith,
+    coverage: stored.coverage,
+    cached: true,
+  };
+}
+
+// Where the open document is remembered so a reload comes back to it
+const activeDocumentKey = (uid: string) => `activeDocument:${uid}`;
+
+// How often a background upload is checked, and how long before giving up on it
+const INGESTION_POLL_INTERVAL_MS = 1000;
+const INGESTION_TIMEOUT_MS = 20 * 60 * 1000;
+
+interface UploadProgress {
+  status: string;
+  chunksEmbedded: number;
+  chunksFailed: number;
+  chunksTotal: number;
+}
+
+// Chunks of the open document that could not be embedded
+interface EmbeddingFailures {
+  chunksFailed: number;
+  totalChunks: number;
+}
+
+interface ActiveDocument {
+  documentId: string;
+  fileName: string;
+  // How the document was opened: a fresh upload, an upload matching stored
+  // content, or picked from the library
+  origin: "uploaded" | "duplicate" | "library";
 }
 
 export default function LegalDocumentAnalyzer() {
+  const [user, setUser] = useState<User | null>(null);
+  const [authReady, setAuthReady] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
-  const [uploadSuccess, setUploadSuccess] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const [activeDocument, setActiveDocument] = useState<ActiveDocument | null>(null);
+  // The document that was open when a new file was picked, which the upload can be a new version of
+  const [versionOf, setVersionOf] = useState<ActiveDocument | null>(null);
+  const [uploadAsVersion, setUploadAsVersion] = useState(false);
+  const [versionDiff, setVersionDiff] = useState<DocumentDiff | null>(null);
+  const [embeddingFailures, setEmbeddingFailures] = useState<EmbeddingFailures | null>(null);
+  const [isRetryingChunks, setIsRetryingChunks] = useState(false);
+  const uploadSuccess = activeDocument !== null;
   const [analysisResults, setAnalysisResults] = useState<AnalysisResult[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState<string | null>(null);
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  const [outputLanguage, setOutputLanguage] = useState("en");
+  const [templates, setTemplates] = useState<AnalysisTemplate[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Track the signed-in user; signing out clears everything on screen
+  useEffect(() => {
+    return onAuthStateChanged(auth, (currentUser) => {
+      setUser(currentUser);
+      setAuthReady(true);
+      if (!currentUser) {
+        setSelectedFile(null);
+        setActiveDocument(null);
+        setAnalysisResults([]);
+        return;
+      }
+
+      const remembered = localStorage.getItem(activeDocumentKey(currentUser.uid));
+      if (remembered) {
+        setActiveDocument({ ...JSON.parse(remembered), origin: "library" });
+      }
+    });
+  }, []);
+
+  // The analysis options are generated from the template registry
+  const loadTemplates = useCallback(async () => {
+    try {
+      const response = await authFetch("/api/templates");
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to load templates");
+      }
+      setTemplates(result.templates);
+    } catch (error) {
+      console.error("Failed to load templates:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) loadTemplates();
+  }, [user, loadTemplates]);
+
+  const activeDocumentId = activeDocument?.documentId;
+  const activeFileName = activeDocument?.fileName;
+
+  useEffect(() => {
+    if (!user) return;
+    if (activeDocumentId && activeFileName) {
+      localStorage.setItem(
+        activeDocumentKey(user.uid),
+        JSON.stringify({ documentId: activeDocumentId, fileName: activeFileName })
+      );
+    } else {
+      localStorage.removeItem(activeDocumentKey(user.uid));
+    }
+  }, [user, activeDocumentId, activeFileName]);
+
+  // Show the stored analyses of the open document ahead of any new ones
+  useEffect(() => {
+    if (!activeDocumentId) return;
+    let cancelled = false;
+
+    authFetch(`/api/documents/${encodeURIComponent(activeDocumentId)}/analyses`)
+      .then(async (response) => {
+        const result = await response.json();
+        if (cancelled) return;
+        // The remembered document may have been removed in the meantime
+        if (response.status === 404) {
+          setActiveDocument(null);
+          return;
+        }
+        if (!result.success) throw new Error(result.error || "Failed to load analysis history");
+
+        const history: AnalysisResult[] = result.analyses.map(fromStored);
+        setAnalysisResults((prev) => [
+          ...history.filter((item) => !prev.some((existing) => existing.id === item.id)),
+          ...prev,
+        ]);
+      })
+      .catch((error) => console.error("Failed to load analysis history:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeDocumentId]);
+
+  // Chunks that could not be embedded leave gaps in search and chat, so say so
+  useEffect(() => {
+    setEmbeddingFailures(null);
+    if (!activeDocumentId) return;
+    let cancelled = false;
+
+    authFetch(`/api/documents/${encodeURIComponent(activeDocumentId)}/failed-chunks`)
+      .then(async (response) => {
+        const result = await response.json();
+        if (cancelled || response.status === 404) return;
+        if (!result.success) throw new Error(result.error || "Failed to check for failed chunks");
+        if (result.chunksFailed > 0) {
+          setEmbeddingFailures({ chunksFailed: result.chunksFailed, totalChunks: result.totalChunks });
+        }
+      })
+      .catch((error) => console.error("Failed to check for failed chunks:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeDocumentId, libraryVersion]);
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      // Validate file type
-      const allowedTypes = [".pdf", ".doc", ".docx", ".txt"];
-      const fileExtension = "." + file.name.split(".").pop()?.toLowerCase();
-
-      if (allowedTypes.includes(fileExtension)) {
+      if (isSupportedFile(file.name)) {
         setSelectedFile(file);
-        setUploadSuccess(false);
+        if (activeDocument) {
+          setVersionOf(activeDocument);
+          setUploadAsVersion(false);
+        }
+        setActiveDocument(null);
         setAnalysisResults([]);
+        setVersionDiff(null);
       } else {
-        alert("Please select a valid document file (.pdf, .doc, .docx, .txt)");
+        alert(`Please select a valid document file (${SUPPORTED_EXTENSIONS.join(", ")})`);
       }
     }
   };
@@ -54,8 +265,11 @@ export default function LegalDocumentAnalyzer() {
     try {
       const formData = new FormData();
       formData.append("document", selectedFile);
+      if (uploadAsVersion && versionOf) {
+        formData.append("versionOf", versionOf.documentId);
+      }
 
-      const response = await fetch("/api/upload-document", {
+      const response = await authFetch("/api/upload-document", {
         method: "POST",
         body: formData,
       });
@@ -63,7 +277,19 @@ export default function LegalDocumentAnalyzer() {
       const result = await response.json();
 
       if (response.ok && result.success) {
-        setUploadSuccess(true);
+        if (result.jobId) {
+          await waitForIngestion(result.jobId);
+        }
+
+        // Duplicates resolve to the copy already stored, which may have another name
+        setActiveDocument({
+          documentId: result.documentId,
+          fileName: result.fileName,
+          origin: result.duplicate ? "duplicate" : "uploaded",
+        });
+        setLibraryVersion((version) => version + 1);
+        setVersionOf(null);
+        setUploadAsVersion(false);
         console.log("Upload successful:", result);
       } else {
         throw new Error(result.error || "Upload failed");
@@ -77,43 +303,240 @@ export default function LegalDocumentAnalyzer() {
       );
     } finally {
       setIsUploading(false);
+      setUploadProgress(null);
+    }
+  };
+
+  // Poll a background ingestion job until it completes, updating the progress bar
+  const waitForIngestion = async (jobId: string) => {
+    const deadline = Date.now() + INGESTION_TIMEOUT_MS;
+    for (;;) {
+      const response = await authFetch(`/api/ingestion-jobs/${encodeURIComponent(jobId)}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to check upload progress");
+      }
+
+      const { job } = result;
+      setUploadProgress({
+        status: job.status,
+        chunksEmbedded: job.chunksEmbedded,
+        chunksFailed: job.chunksFailed || 0,
+        chunksTotal: job.chunksTotal,
+      });
+
+      if (job.status === "completed") return;
+      if (job.status === "failed") {
+        throw new Error(job.error || "Processing failed");
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error("Processing is taking too long; check the document library later or upload it again");
+      }
+      await new Promise((resolve) => setTimeout(resolve, INGESTION_POLL_INTERVAL_MS));
+    }
+  };
+
+  // Embed the open document's failed chunks again
+  const handleRetryFailedChunks = async () => {
+    if (!activeDocument) return;
+
+    setIsRetryingChunks(true);
+    try {
+      const response = await authFetch(
+        `/api/documents/${encodeURIComponent(activeDocument.documentId)}/failed-chunks`,
+        { method: "POST" }
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Retry failed");
+      }
+
+      await waitForIngestion(result.jobId);
+    } catch (error) {
+      console.error("Retry error:", error);
+      alert(
+        `Failed to embed the remaining chunks: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      setIsRetryingChunks(false);
+      setUploadProgress(null);
+      setLibraryVersion((version) => version + 1);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeDocument) return;
+    if (!confirm(`Remove "${activeDocument.fileName}" and everything stored for it?`)) return;
+
+    try {
+      const response = await authFetch(
+        `/api/documents/${encodeURIComponent(activeDocument.documentId)}`,
+        { method: "DELETE" }
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Delete failed");
+      }
+
+      setActiveDocument(null);
+      setSelectedFile(null);
+      setAnalysisResults([]);
+      setVersionDiff(null);
+      setLibraryVersion((version) => version + 1);
+    } catch (error) {
+      console.error("Delete error:", error);
+      alert(
+        `Failed to remove document: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
     }
   };
 
-  const handleAnalysis = async (analysisType: string) => {
-    if (!selectedFile || !uploadSuccess) {
+  // Reopen a stored document without uploading it again
+  const handleOpenDocument = (document: Pick<DocumentSummary, "documentId" | "fileName">) => {
+    if (document.documentId === activeDocument?.documentId) return;
+    setSelectedFile(null);
+    setAnalysisResults([]);
+    setVersionDiff(null);
+    setActiveDocument({
+      documentId: document.documentId,
+      fileName: document.fileName,
+      origin: "library",
+    });
+  };
+
+  // Run an analysis, or show the stored result of an identical earlier run
+  // unless `regenerate` asks for a fresh one. Playbook comparisons also name
+  // the playbook to compare against, and explanations of changes the earlier version.
+  const handleAnalysis = async (
+    analysisType: string,
+    {
+      regenerate = false,
+      playbookId,
+      comparedWith,
+    }: { regenerate?: boolean; playbookId?: string; comparedWith?: AnalysisResult["comparedWith"] } = {}
+  ) => {
+    if (!activeDocument) {
       alert("Please upload a document first");
       return;
     }
 
     setIsAnalyzing(analysisType);
 
+    // A streamed card takes the stored analysis's id once the server sends it
+    let resultId: string = crypto.randomUUID();
+    const updateResult = (changes: Partial<AnalysisResult>) => {
+      const id = resultId;
+      setAnalysisResults((prev) =>
+        prev.map((item) => (item.id === id ? { ...item, ...changes } : item))
+      );
+    };
+
     try {
-      const response = await fetch("/api/analyze-document", {
+      const response = await authFetch("/api/analyze-document", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
           analysisType,
-          fileName: selectedFile.name,
+          fileName: activeDocument.fileName,
+          stream: true,
+          outputLanguage,
+          regenerate,
+          ...(playbookId && { playbookId }),
+          ...(comparedWith && { compareTo: comparedWith.documentId }),
         }),
       });
 
-      const result = await response.json();
+      // Validation failures, stored results and structured analyses come back as plain JSON
+      if (!response.headers.get("Content-Type")?.includes("text/event-stream")) {
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || "Analysis failed");
+        }
+        const id = result.analysisId || resultId;
+        setAnalysisResults((prev) =>
+          prev.some((item) => item.id === id)
+            ? prev
+            : [
+                ...prev,
+                {
+                  id,
+                  type: analysisType,
+                  fileName: activeDocument.fileName,
+                  content: result.analysis,
+                  outputLanguage,
+                  timestamp: result.createdAt ? new Date(result.createdAt) : new Date(),
+                  model: result.model,
+                  risks: result.risks,
+                  entities: result.entities,
+                  comparison: result.comparison,
+                  comparedWith,
+                  coverage: result.coverage,
+                  cached: result.cached,
+                },
+              ]
+        );
+        return;
+      }
 
-      if (response.ok && result.success) {
-        const newAnalysis: AnalysisResult = {
+      setAnalysisResults((prev) => [
+        ...prev,
+        {
+          id: resultId,
           type: analysisType,
-          content: result.analysis,
+          fileName: activeDocument.fileName,
+          content: "",
+          outputLanguage,
           timestamp: new Date(),
+          comparedWith,
+          isStreaming: true,
+        },
+      ]);
+
+      let content = "";
+      let streamError: string | null = null;
+      await readServerSentEvents(response, ({ event, data }) => {
+        const payload = data as {
+          text?: string;
+          model?: string;
+          error?: string;
+          coverage?: AnalysisCoverage;
+          analysisId?: string;
         };
-        setAnalysisResults((prev) => [...prev, newAnalysis]);
-      } else {
-        throw new Error(result.error || "Analysis failed");
+        if (event === "progress") {
+          updateResult({ progress: data as AnalysisProgress });
+        } else if (event === "token" && payload.text) {
+          content += payload.text;
+          updateResult({ content, progress: undefined });
+        } else if (event === "done") {
+          updateResult({
+            model: payload.model,
+            coverage: payload.coverage,
+            isStreaming: false,
+            ...(payload.analysisId && { id: payload.analysisId }),
+          });
+          if (payload.analysisId) resultId = payload.analysisId;
+        } else if (event === "error") {
+          streamError = payload.error || "Analysis failed";
+        }
+      });
+
+      if (streamError) {
+        throw new Error(streamError);
       }
+      updateResult({ isStreaming: false });
     } catch (error) {
       console.error("Analysis error:", error);
+      setAnalysisResults((prev) => prev.filter((item) => item.id !== resultId));
       alert(
         `Failed to perform ${formatAnalysisType(analysisType)}: ${
           error instanceof Error ? error.message : "Unknown error"
@@ -124,53 +547,69 @@ export default function LegalDocumentAnalyzer() {
     }
   };
 
-  const formatAnalysisType = (type: string) => {
-    switch (type) {
-      case "summarize":
-        return "Document Summary";
-      case "detailed":
-        return "Detailed Analysis";
-      case "risks":
-        return "Risk Assessment";
-      case "key-terms":
-        return "Key Terms & Clauses";
-      case "plain-english":
-        return "Plain English Translation";
-      default:
-        return type;
-    }
-  };
+  // Results of deleted templates keep their id as the name
+  const formatAnalysisType = (type: string) =>
+    templates.find((template) => template.id === type)?.name || type;
+
+  const toExportable = (result: AnalysisResult): ExportableAnalysis => ({
+    fileName: result.fileName,
+    analysisType: result.type,
+    title: formatAnalysisType(result.type),
+    content: result.content,
+    timestamp: result.timestamp,
+    model: result.model,
+    coverage: result.coverage,
+    risks: result.risks,
+    entities: result.entities,
+    comparison: result.comparison,
+  });
+
+  // Comparisons are run from the playbook and versions panels rather than the options list
+  const playbookTemplate = templates.find((template) => template.outputFormat === "playbook-comparison");
+  const changesTemplate = templates.find((template) => template.outputFormat === "change-explanation");
+
+  const header = (
+    <div className="text-center mb-8">
+      <h1 className="text-4xl font-bold text-gray-800 mb-4">
+        Legal Document Analyzer
+      </h1>
+      <p className="text-lg text-gray-600 max-w-3xl mx-auto">
+        Upload your legal documents and get clear, accessible insights
+        powered by AI. Understand complex terms, identify risks, and make
+        informed decisions.
+      </p>
+    </div>
+  );
 
-  const getAnalysisIcon = (type: string) => {
-    switch (type) {
-      case "summarize":
-        return <FileText className="w-5 h-5" />;
-      case "detailed":
-        return <Brain className="w-5 h-5" />;
-      case "risks":
-        return <AlertTriangle className="w-5 h-5" />;
-      case "key-terms":
-        return <Search className="w-5 h-5" />;
-      case "plain-english":
-        return <Eye className="w-5 h-5" />;
-      default:
-        return <FileText className="w-5 h-5" />;
-    }
-  };
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-6">
+        <div className="max-w-6xl mx-auto">
+          {header}
+          {authReady ? (
+            <SignIn />
+          ) : (
+            <Loader2 className="w-8 h-8 mx-auto animate-spin text-blue-600" />
+          )}
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-6">
       <div className="max-w-6xl mx-auto">
         {/* Header */}
-        <div className="text-center mb-8">
-          <h1 className="text-4xl font-bold text-gray-800 mb-4">
-            Legal Document Analyzer
-          </h1>
-          <p className="text-lg text-gray-600 max-w-3xl mx-auto">
-            Upload your legal documents and get clear, accessible insights
-            powered by AI. Understand complex terms, identify risks, and make
-            informed decisions.
-          </p>
+        {header}
+        <div className="flex justify-end items-center mb-4 text-sm text-gray-600">
+          <span className="mr-3">{user.email || "Signed in"}</span>
+          <button
+            onClick={() => signOut(auth)}
+            className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-white transition-colors flex items-center"
+          >
+            <LogOut className="w-4 h-4 mr-1" />
+            Sign Out
+          </button>
         </div>
 
         <div className="grid lg:grid-cols-3 gap-8">
@@ -187,7 +626,7 @@ export default function LegalDocumentAnalyzer() {
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".pdf,.doc,.docx,.txt"
+                    accept={SUPPORTED_FILE_ACCEPT}
                     onChange={handleFileSelect}
                     className="hidden"
                   />
@@ -209,7 +648,7 @@ export default function LegalDocumentAnalyzer() {
                         Click to select a document
                       </p>
                       <p className="text-sm text-gray-500">
-                        Supports PDF, DOC, DOCX, TXT
+                        Supports {SUPPORTED_FORMATS_LABEL}
                       </p>
                     </div>
                   )}
@@ -222,6 +661,17 @@ export default function LegalDocumentAnalyzer() {
                   </button>
                 </div>
 
+                {selectedFile && !uploadSuccess && versionOf && (
+                  <label className="flex items-center space-x-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={uploadAsVersion}
+                      onChange={(e) => setUploadAsVersion(e.target.checked)}
+                    />
+                    <span>Upload as a new version of {versionOf.fileName}</span>
+                  </label>
+                )}
+
                 {selectedFile && !uploadSuccess && (
                   <button
                     onClick={handleUpload}
@@ -231,7 +681,7 @@ export default function LegalDocumentAnalyzer() {
                     {isUploading ? (
                       <>
                         <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                        Uploading...
+                        {uploadProgress ? "Processing..." : "Uploading..."}
                       </>
                     ) : (
                       <>
@@ -242,10 +692,73 @@ export default function LegalDocumentAnalyzer() {
                   </button>
                 )}
 
-                {uploadSuccess && (
-                  <div className="flex items-center justify-center text-green-600 bg-green-50 p-3 rounded-lg">
-                    <CheckCircle className="w-5 h-5 mr-2" />
-                    Document uploaded successfully!
+                {uploadProgress && (
+                  <div>
+                    <div className="flex justify-between text-sm text-gray-600 mb-1">
+                      <span className="capitalize">{uploadProgress.status}</span>
+                      <span>
+                        {uploadProgress.chunksEmbedded} / {uploadProgress.chunksTotal} chunks
+                        {uploadProgress.chunksFailed > 0 && `, ${uploadProgress.chunksFailed} failed`}
+                      </span>
+                    </div>
+                    <div
+                      className="w-full h-2 bg-gray-200 rounded-full overflow-hidden"
+                      role="progressbar"
+                      aria-label="Document processing progress"
+                      aria-valuemin={0}
+                      aria-valuemax={uploadProgress.chunksTotal}
+                      aria-valuenow={uploadProgress.chunksEmbedded}
+                    >
+                      <div
+                        className="h-full bg-green-600 transition-all"
+                        style={{
+                          width: `${uploadProgress.chunksTotal > 0
+                            ? (uploadProgress.chunksEmbedded / uploadProgress.chunksTotal) * 100
+                            : 0}%`,
+                        }}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {activeDocument && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-center text-green-600 bg-green-50 p-3 rounded-lg">
+                      <CheckCircle className="w-5 h-5 mr-2" />
+                      {activeDocument.origin === "duplicate"
+                        ? `Already uploaded as ${activeDocument.fileName}`
+                        : activeDocument.origin === "library"
+                        ? `Opened ${activeDocument.fileName}`
+                        : "Document uploaded successfully!"}
+                    </div>
+                    {embeddingFailures && (
+                      <div role="status" className="text-sm text-amber-800 bg-amber-50 border border-amber-200 p-3 rounded-lg space-y-2">
+                        <p className="flex items-start">
+                          <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                          {embeddingFailures.chunksFailed} of {embeddingFailures.totalChunks} chunks could not be
+                          embedded, so chat and analyses may miss parts of this document.
+                        </p>
+                        <button
+                          onClick={handleRetryFailedChunks}
+                          disabled={isRetryingChunks}
+                          className="w-full px-4 py-2 bg-white border border-amber-300 rounded-lg hover:bg-amber-100 disabled:opacity-50 transition-colors flex items-center justify-center"
+                        >
+                          {isRetryingChunks ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          ) : (
+                            <RefreshCw className="w-4 h-4 mr-2" />
+                          )}
+                          Retry failed chunks
+                        </button>
+                      </div>
+                    )}
+                    <button
+                      onClick={handleDelete}
+                      className="w-full px-4 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors flex items-center justify-center"
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Remove Document
+                    </button>
                   </div>
                 )}
               </div>
@@ -253,120 +766,71 @@ export default function LegalDocumentAnalyzer() {
 
             {/* Analysis Options */}
             {uploadSuccess && (
-              <div className="bg-white rounded-xl shadow-lg p-6 mt-6">
-                <h2 className="text-xl font-semibold text-gray-800 mb-4">
-                  Analysis Options
-                </h2>
-
-                <div className="space-y-3">
-                  <button
-                    onClick={() => handleAnalysis("summarize")}
-                    disabled={isAnalyzing !== null}
-                    className="w-full p-3 bg-blue-50 hover:bg-blue-100 border border-blue-200 rounded-lg text-left flex items-center transition-colors disabled:opacity-50"
-                  >
-                    {isAnalyzing === "summarize" ? (
-                      <Loader2 className="w-5 h-5 mr-3 animate-spin text-blue-600" />
-                    ) : (
-                      <FileText className="w-5 h-5 mr-3 text-blue-600" />
-                    )}
-                    <div>
-                      <p className="font-medium text-gray-800">Quick Summary</p>
-                      <p className="text-sm text-gray-600">
-                        Get the key points in simple terms
-                      </p>
-                    </div>
-                  </button>
+              <AnalysisOptions
+                templates={templates.filter(
+                  (template) => template !== playbookTemplate && template !== changesTemplate
+                )}
+                isAnalyzing={isAnalyzing}
+                onRun={(templateId) => handleAnalysis(templateId)}
+                outputLanguage={outputLanguage}
+                onOutputLanguageChange={setOutputLanguage}
+                currentUserId={user.uid}
+                onTemplatesChanged={loadTemplates}
+              />
+            )}
 
-                  <button
-                    onClick={() => handleAnalysis("detailed")}
-                    disabled={isAnalyzing !== null}
-                    className="w-full p-3 bg-purple-50 hover:bg-purple-100 border border-purple-200 rounded-lg text-left flex items-center transition-colors disabled:opacity-50"
-                  >
-                    {isAnalyzing === "detailed" ? (
-                      <Loader2 className="w-5 h-5 mr-3 animate-spin text-purple-600" />
-                    ) : (
-                      <Brain className="w-5 h-5 mr-3 text-purple-600" />
-                    )}
-                    <div>
-                      <p className="font-medium text-gray-800">
-                        Detailed Analysis
-                      </p>
-                      <p className="text-sm text-gray-600">
-                        Comprehensive breakdown of all sections
-                      </p>
-                    </div>
-                  </button>
+            {/* Playbook Comparison */}
+            {uploadSuccess && playbookTemplate && (
+              <PlaybookPanel
+                isComparing={isAnalyzing === playbookTemplate.id}
+                disabled={isAnalyzing !== null}
+                onCompare={(playbookId) => handleAnalysis(playbookTemplate.id, { playbookId })}
+              />
+            )}
 
-                  <button
-                    onClick={() => handleAnalysis("risks")}
-                    disabled={isAnalyzing !== null}
-                    className="w-full p-3 bg-red-50 hover:bg-red-100 border border-red-200 rounded-lg text-left flex items-center transition-colors disabled:opacity-50"
-                  >
-                    {isAnalyzing === "risks" ? (
-                      <Loader2 className="w-5 h-5 mr-3 animate-spin text-red-600" />
-                    ) : (
-                      <AlertTriangle className="w-5 h-5 mr-3 text-red-600" />
-                    )}
-                    <div>
-                      <p className="font-medium text-gray-800">
-                        Risk Assessment
-                      </p>
-                      <p className="text-sm text-gray-600">
-                        Identify potential legal and financial risks
-                      </p>
-                    </div>
-                  </button>
+            {/* Versions */}
+            {activeDocument && (
+              <VersionPanel
+                documentId={activeDocument.documentId}
+                isExplaining={isAnalyzing !== null && isAnalyzing === changesTemplate?.id}
+                disabled={isAnalyzing !== null || !changesTemplate}
+                onShowDiff={setVersionDiff}
+                onExplain={(earlier) =>
+                  changesTemplate &&
+                  handleAnalysis(changesTemplate.id, {
+                    comparedWith: { documentId: earlier.documentId, fileName: earlier.fileName },
+                  })
+                }
+                refreshKey={libraryVersion}
+              />
+            )}
 
-                  <button
-                    onClick={() => handleAnalysis("key-terms")}
-                    disabled={isAnalyzing !== null}
-                    className="w-full p-3 bg-green-50 hover:bg-green-100 border border-green-200 rounded-lg text-left flex items-center transition-colors disabled:opacity-50"
-                  >
-                    {isAnalyzing === "key-terms" ? (
-                      <Loader2 className="w-5 h-5 mr-3 animate-spin text-green-600" />
-                    ) : (
-                      <Search className="w-5 h-5 mr-3 text-green-600" />
-                    )}
-                    <div>
-                      <p className="font-medium text-gray-800">
-                        Key Terms & Clauses
-                      </p>
-                      <p className="text-sm text-gray-600">
-                        Important terms explained clearly
-                      </p>
-                    </div>
-                  </button>
+            {/* Keyword and semantic search across every document */}
+            <LibrarySearch onOpen={handleOpenDocument} />
 
-                  <button
-                    onClick={() => handleAnalysis("plain-english")}
-                    disabled={isAnalyzing !== null}
-                    className="w-full p-3 bg-orange-50 hover:bg-orange-100 border border-orange-200 rounded-lg text-left flex items-center transition-colors disabled:opacity-50"
-                  >
-                    {isAnalyzing === "plain-english" ? (
-                      <Loader2 className="w-5 h-5 mr-3 animate-spin text-orange-600" />
-                    ) : (
-                      <Eye className="w-5 h-5 mr-3 text-orange-600" />
-                    )}
-                    <div>
-                      <p className="font-medium text-gray-800">
-                        Plain English Translation
-                      </p>
-                      <p className="text-sm text-gray-600">
-                        Convert legal jargon to everyday language
-                      </p>
-                    </div>
-                  </button>
-                </div>
-              </div>
-            )}
+            {/* Previously uploaded documents */}
+            <DocumentLibrary
+              activeDocumentId={activeDocument?.documentId}
+              onOpen={handleOpenDocument}
+              refreshKey={libraryVersion}
+            />
           </div>
 
           {/* Results Section */}
           <div className="lg:col-span-2">
             <div className="bg-white rounded-xl shadow-lg p-6">
-              <h2 className="text-xl font-semibold text-gray-800 mb-4">
-                Analysis Results
-              </h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-gray-800">
+                  Analysis Results
+                </h2>
+                {analysisResults.length > 1 && (
+                  <ExportMenu
+                    analyses={analysisResults.map(toExportable)}
+                    label="Export all"
+                    disabled={analysisResults.some((result) => result.isStreaming)}
+                  />
+                )}
+              </div>
 
               {analysisResults.length === 0 ? (
                 <div className="text-center py-12">
@@ -377,32 +841,104 @@ export default function LegalDocumentAnalyzer() {
                 </div>
               ) : (
                 <div className="space-y-6">
-                  {analysisResults.map((result, index) => (
+                  {analysisResults.map((result) => (
                     <div
-                      key={index}
+                      key={result.id}
                       className="border border-gray-200 rounded-lg p-4"
                     >
                       <div className="flex items-center justify-between mb-3">
                         <div className="flex items-center">
-                          {getAnalysisIcon(result.type)}
+                          <TemplateIcon
+                            icon={templates.find((template) => template.id === result.type)?.icon}
+                            className="w-5 h-5"
+                          />
                           <h3 className="text-lg font-medium text-gray-800 ml-2">
                             {formatAnalysisType(result.type)}
                           </h3>
+                          {result.comparedWith && (
+                            <span className="ml-2 text-sm text-gray-500">
+                              since {result.comparedWith.fileName}
+                            </span>
+                          )}
                         </div>
                         <div className="flex items-center space-x-2">
+                          {result.coverage && (
+                            <span
+                              className="text-xs text-gray-400"
+                              title={
+                                result.coverage.strategy === "map-reduce"
+                                  ? "Read in parts and combined"
+                                  : "Read in a single pass"
+                              }
+                            >
+                              {result.coverage.chunksAnalyzed}/{result.coverage.totalChunks} chunks
+                            </span>
+                          )}
+                          {result.model && (
+                            <span className="text-xs text-gray-400">
+                              {result.model}
+                            </span>
+                          )}
+                          {result.cached && (
+                            <span
+                              className="text-xs text-gray-400"
+                              title="Stored result from an earlier run"
+                            >
+                              Saved
+                            </span>
+                          )}
                           <span className="text-sm text-gray-500">
-                            {result.timestamp.toLocaleTimeString()}
+                            {result.timestamp.toLocaleString()}
                           </span>
-                          <button className="p-2 text-gray-400 hover:text-gray-600 rounded">
-                            <Download className="w-4 h-4" />
+                          <button
+                            onClick={() =>
+                              handleAnalysis(result.type, {
+                                regenerate: true,
+                                playbookId: result.comparison?.playbookId,
+                                comparedWith: result.comparedWith,
+                              })
+                            }
+                            disabled={isAnalyzing !== null || result.isStreaming}
+                            className="p-2 text-gray-400 hover:text-gray-600 rounded disabled:opacity-40"
+                            aria-label={`Regenerate ${formatAnalysisType(result.type)}`}
+                            title="Regenerate"
+                          >
+                            <RefreshCw className="w-4 h-4" />
                           </button>
+                          <ExportMenu
+                            analyses={[toExportable(result)]}
+                            disabled={result.isStreaming}
+                          />
                         </div>
                       </div>
 
                       <div className="prose max-w-none">
                         <div className="bg-gray-50 p-4 rounded-lg">
-                          <TtsPlayer 
-                          simplifiedText={result.content} />
+                          {result.risks && <RiskTable risks={result.risks} />}
+                          {result.entities && (
+                            <EntityTable entities={result.entities} fileName={result.fileName} />
+                          )}
+                          {result.comparison && <ComparisonTable comparison={result.comparison} />}
+                          {result.isStreaming ? (
+                            <div className="text-sm">
+                              {result.progress && !result.content && (
+                                <span className="text-gray-500">
+                                  {result.progress.stage === "map"
+                                    ? `Reading part ${result.progress.completed} of ${result.progress.total}`
+                                    : `Combining notes ${result.progress.completed} of ${result.progress.total}`}
+                                </span>
+                              )}
+                              {result.content && <MarkdownContent markdown={parseMarkdown(result.content)} />}
+                              <Loader2 className="inline w-4 h-4 ml-1 animate-spin text-gray-400" />
+                            </div>
+                          ) : (
+                            <AnalysisContent
+                              content={result.content}
+                              language={result.outputLanguage}
+                              fileName={result.fileName}
+                              showContents={result.type === "detailed"}
+                            />
+                          )}
                         </div>
                       </div>
                     </div>
@@ -410,16 +946,22 @@ export default function LegalDocumentAnalyzer() {
                 </div>
               )}
             </div>
+
+            {/* Differences between two versions */}
+            {versionDiff && (
+              <DiffView diff={versionDiff} onClose={() => setVersionDiff(null)} />
+            )}
+
+            {/* Document Q&A */}
+            {activeDocument && (
+              <DocumentChat documentId={activeDocument.documentId} />
+            )}
           </div>
         </div>
 
         {/* Footer */}
         <div className="text-center mt-8 text-gray-500 text-sm">
-          <p>
-            This tool provides general information and should not replace
-            professional legal advice. Always consult with a qualified attorney
-            for specific legal matters.
-          </p>
+          <p>{LEGAL_DISCLAIMER}</p>
         </div>
       </div>
     </div>
@@ -0,0 +1,29 @@
+"use client";
+import { useMemo, useState } from "react";
+import TtsPlayer from "./TtsPlayer";
+import MarkdownContent from "./MarkdownContent";
+import { parseMarkdown } from "../lib/markdown";
+import type { TextRange } from "../lib/sentences";
+
+interface AnalysisContentProps {
+  content: string;
+  // Language the analysis is written in, used to read it aloud
+  language?: string;
+  fileName?: string;
+  // Offer a table of contents for long texts
+  showContents?: boolean;
+}
+
+// A finished analysis: the rendered Markdown and a player that reads it aloud,
+// marking the sentence being read
+export default function AnalysisContent({ content, language, fileName, showContents }: AnalysisContentProps) {
+  const markdown = useMemo(() => parseMarkdown(content), [content]);
+  const [reading, setReading] = useState<TextRange | null>(null);
+
+  return (
+    <>
+      <MarkdownContent markdown={markdown} highlight={reading} showContents={showContents} />
+      <TtsPlayer text={markdown.text} language={language} fileName={fileName} onSegmentChange={setReading} />
+    </>
+  );
+}
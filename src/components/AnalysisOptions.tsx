@@ -0,0 +1,114 @@
+"use client";
+import { useState } from "react";
+import { Loader2, Settings2 } from "lucide-react";
+import type { AnalysisTemplate, TemplateIconName } from "../lib/analysisTemplates";
+import { OUTPUT_LANGUAGES } from "../lib/language";
+import TemplateIcon from "./TemplateIcon";
+import TemplateManager from "./TemplateManager";
+
+// Button colours follow the template's icon
+const ICON_STYLES: Record<TemplateIconName, { button: string; icon: string }> = {
+  "file-text": { button: "bg-blue-50 hover:bg-blue-100 border-blue-200", icon: "text-blue-600" },
+  brain: { button: "bg-purple-50 hover:bg-purple-100 border-purple-200", icon: "text-purple-600" },
+  "alert-triangle": { button: "bg-red-50 hover:bg-red-100 border-red-200", icon: "text-red-600" },
+  "calendar-days": { button: "bg-teal-50 hover:bg-teal-100 border-teal-200", icon: "text-teal-600" },
+  search: { button: "bg-green-50 hover:bg-green-100 border-green-200", icon: "text-green-600" },
+  eye: { button: "bg-orange-50 hover:bg-orange-100 border-orange-200", icon: "text-orange-600" },
+  shield: { button: "bg-indigo-50 hover:bg-indigo-100 border-indigo-200", icon: "text-indigo-600" },
+  scale: { button: "bg-amber-50 hover:bg-amber-100 border-amber-200", icon: "text-amber-600" },
+  "clipboard-check": { button: "bg-cyan-50 hover:bg-cyan-100 border-cyan-200", icon: "text-cyan-600" },
+  gavel: { button: "bg-slate-50 hover:bg-slate-100 border-slate-200", icon: "text-slate-600" },
+  "book-open": { button: "bg-pink-50 hover:bg-pink-100 border-pink-200", icon: "text-pink-600" },
+  lock: { button: "bg-gray-50 hover:bg-gray-100 border-gray-200", icon: "text-gray-600" },
+};
+
+interface AnalysisOptionsProps {
+  templates: AnalysisTemplate[];
+  // Id of the template currently running, if any
+  isAnalyzing: string | null;
+  onRun: (templateId: string) => void;
+  outputLanguage: string;
+  onOutputLanguageChange: (code: string) => void;
+  currentUserId: string;
+  onTemplatesChanged: () => void;
+}
+
+export default function AnalysisOptions({
+  templates,
+  isAnalyzing,
+  onRun,
+  outputLanguage,
+  onOutputLanguageChange,
+  currentUserId,
+  onTemplatesChanged,
+}: AnalysisOptionsProps) {
+  const [isManaging, setIsManaging] = useState(false);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-800">
+          Analysis Options
+        </h2>
+        <button
+          onClick={() => setIsManaging(!isManaging)}
+          aria-expanded={isManaging}
+          aria-label="Manage analysis templates"
+          title="Manage analysis templates"
+          className="p-2 text-gray-400 hover:text-gray-600 rounded"
+        >
+          <Settings2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <label className="flex items-center justify-between mb-4 text-sm text-gray-600">
+        <span>Write results in</span>
+        <select
+          value={outputLanguage}
+          onChange={(e) => onOutputLanguageChange(e.target.value)}
+          className="border border-gray-300 rounded px-2 py-1"
+        >
+          {OUTPUT_LANGUAGES.map((language) => (
+            <option key={language.code} value={language.code}>
+              {language.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="space-y-3">
+        {templates.map((template) => {
+          const styles = ICON_STYLES[template.icon] || ICON_STYLES.lock;
+          return (
+            <button
+              key={template.id}
+              onClick={() => onRun(template.id)}
+              disabled={isAnalyzing !== null}
+              className={`w-full p-3 border rounded-lg text-left flex items-center transition-colors disabled:opacity-50 ${styles.button}`}
+            >
+              {isAnalyzing === template.id ? (
+                <Loader2 className={`w-5 h-5 mr-3 flex-shrink-0 animate-spin ${styles.icon}`} />
+              ) : (
+                <TemplateIcon icon={template.icon} className={`w-5 h-5 mr-3 flex-shrink-0 ${styles.icon}`} />
+              )}
+              <div>
+                <p className="font-medium text-gray-800">{template.name}</p>
+                {template.description && (
+                  <p className="text-sm text-gray-600">{template.description}</p>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {isManaging && (
+        <TemplateManager
+          templates={templates}
+          currentUserId={currentUserId}
+          onChanged={onTemplatesChanged}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+import { useState } from "react";
+import {
+  COMPARISON_STATUSES,
+  ComparisonStatus,
+  PlaybookComparison,
+  STATUS_LABELS,
+} from "../lib/playbookComparison";
+
+const statusStyles: Record<ComparisonStatus, string> = {
+  deviates: "bg-red-100 text-red-700",
+  omits: "bg-orange-100 text-orange-700",
+  "not-assessed": "bg-gray-100 text-gray-700",
+  "goes-beyond": "bg-yellow-100 text-yellow-800",
+  matches: "bg-green-100 text-green-700",
+};
+
+export default function ComparisonTable({ comparison }: { comparison: PlaybookComparison }) {
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const { findings } = comparison;
+  const visibleFindings = findings.filter(finding => statusFilter === "all" || finding.status === statusFilter);
+
+  return (
+    <div className="mt-4">
+      <div className="flex flex-wrap gap-3 mb-3 text-sm">
+        <span className="text-gray-600 self-center">
+          Playbook: <span className="font-medium text-gray-800">{comparison.playbookName}</span>
+        </span>
+        <label className="flex items-center space-x-2">
+          <span className="text-gray-600">Status</span>
+          <select
+            value={statusFilter}
+            onChange={event => setStatusFilter(event.target.value)}
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            <option value="all">All</option>
+            {COMPARISON_STATUSES.map(status => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]} ({findings.filter(finding => finding.status === status).length})
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className="text-gray-500 self-center">
+          Showing {visibleFindings.length} of {findings.length}
+        </span>
+      </div>
+
+      {visibleFindings.length === 0 ? (
+        <p className="text-sm text-gray-500">No findings match the current filter.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm border border-gray-200">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Rule</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Status</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Our position</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Contract</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Finding</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleFindings.map((finding, index) => (
+                <tr key={index} className="border-t border-gray-200 align-top">
+                  <td className="px-3 py-2 text-gray-800">
+                    {finding.ruleId && <span className="block text-xs text-gray-500">{finding.ruleId}</span>}
+                    {finding.topic}
+                  </td>
+                  <td className="px-3 py-2">
+                    <span className={`px-2 py-0.5 rounded text-xs font-semibold whitespace-nowrap ${statusStyles[finding.status]}`}>
+                      {STATUS_LABELS[finding.status]}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-gray-700">
+                    {finding.position || <span className="text-gray-400">Not in playbook</span>}
+                  </td>
+                  <td className="px-3 py-2 text-gray-800">
+                    {finding.clause ? (
+                      <>
+                        <span className="italic">&ldquo;{finding.clause}&rdquo;</span>
+                        <span className="block text-xs text-gray-500">
+                          {finding.location || `Chunk ${finding.chunkIndex}`}
+                        </span>
+                        {finding.quoteVerified === false && (
+                          <span className="block text-xs text-orange-600">Quote not found verbatim</span>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-gray-400">No matching clause</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-gray-700">
+                    {finding.explanation}
+                    {finding.suggestion && (
+                      <span className="block mt-1 text-gray-600">
+                        <span className="font-medium">Suggestion:</span> {finding.suggestion}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
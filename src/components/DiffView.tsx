@@ -0,0 +1,160 @@
+"use client";
+import { useState } from "react";
+import { X } from "lucide-react";
+import type { ClauseChange, ClauseDiff, DiffSide, DocumentDiff } from "../lib/documentDiff";
+
+interface DiffViewProps {
+  diff: DocumentDiff;
+  onClose: () => void;
+}
+
+const changeStyles: Record<ClauseChange, { badge: string; label: string }> = {
+  added: { badge: "bg-green-100 text-green-700", label: "Added" },
+  removed: { badge: "bg-red-100 text-red-700", label: "Removed" },
+  changed: { badge: "bg-yellow-100 text-yellow-800", label: "Changed" },
+  unchanged: { badge: "bg-gray-100 text-gray-600", label: "Unchanged" },
+};
+
+const describeSide = (side: DiffSide) => (side.version ? `v${side.version} (${side.fileName})` : side.fileName);
+
+// Old and new wording in one text, deletions struck through and insertions underlined
+function Redline({ clause }: { clause: ClauseDiff }) {
+  if (clause.change === "added") {
+    return <ins className="bg-green-50 text-green-800 no-underline">{clause.newText}</ins>;
+  }
+  if (clause.change === "removed") {
+    return <del className="bg-red-50 text-red-700">{clause.oldText}</del>;
+  }
+  if (clause.change === "unchanged") {
+    return <span>{clause.newText}</span>;
+  }
+  return (
+    <>
+      {clause.segments?.map((segment, index) =>
+        segment.type === "added" ? (
+          <ins key={index} className="bg-green-50 text-green-800 underline">{segment.text}</ins>
+        ) : segment.type === "removed" ? (
+          <del key={index} className="bg-red-50 text-red-700">{segment.text}</del>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+// One side of a changed clause, with the words only that side has highlighted
+function Side({ clause, side }: { clause: ClauseDiff; side: "old" | "new" }) {
+  if (clause.change !== "changed") {
+    return <>{side === "old" ? (clause.change === "unchanged" ? clause.newText : clause.oldText) : clause.newText}</>;
+  }
+  const own = side === "old" ? "removed" : "added";
+  return (
+    <>
+      {clause.segments
+        ?.filter(segment => segment.type === "equal" || segment.type === own)
+        .map((segment, index) =>
+          segment.type === "equal" ? (
+            <span key={index}>{segment.text}</span>
+          ) : (
+            <mark key={index} className={own === "added" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-700"}>
+              {segment.text}
+            </mark>
+          )
+        )}
+    </>
+  );
+}
+
+export default function DiffView({ diff, onClose }: DiffViewProps) {
+  const [layout, setLayout] = useState<"redline" | "side-by-side">("redline");
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const clauses = diff.clauses.filter(clause => showUnchanged || clause.change !== "unchanged");
+  const changes = diff.counts.added + diff.counts.removed + diff.counts.changed;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mt-6">
+      <div className="flex items-start justify-between mb-3">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800">Changes between versions</h2>
+          <p className="text-sm text-gray-600">
+            From {describeSide(diff.from)} to {describeSide(diff.to)}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-400 hover:text-gray-600 rounded"
+          aria-label="Close comparison"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+        {(["changed", "added", "removed"] as const).map(change => (
+          <span key={change} className={`px-2 py-0.5 rounded text-xs font-semibold ${changeStyles[change].badge}`}>
+            {diff.counts[change]} {changeStyles[change].label.toLowerCase()}
+          </span>
+        ))}
+        <div className="flex border border-gray-300 rounded-lg overflow-hidden" role="group" aria-label="Layout">
+          {(["redline", "side-by-side"] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setLayout(option)}
+              aria-pressed={layout === option}
+              className={`px-2 py-1 ${layout === option ? "bg-blue-600 text-white" : "hover:bg-gray-50"}`}
+            >
+              {option === "redline" ? "Redline" : "Side by side"}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center space-x-1 text-gray-600">
+          <input type="checkbox" checked={showUnchanged} onChange={event => setShowUnchanged(event.target.checked)} />
+          <span>Show unchanged clauses ({diff.counts.unchanged})</span>
+        </label>
+      </div>
+
+      {changes === 0 && !showUnchanged ? (
+        <p className="text-sm text-gray-500">The two versions have the same wording.</p>
+      ) : (
+        <div className="space-y-3 text-sm">
+          {layout === "side-by-side" && (
+            <div className="grid grid-cols-2 gap-3 font-medium text-gray-700">
+              <span>{describeSide(diff.from)}</span>
+              <span>{describeSide(diff.to)}</span>
+            </div>
+          )}
+          {clauses.map((clause, index) => (
+            <div key={index} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center mb-2">
+                <span className={`px-2 py-0.5 rounded text-xs font-semibold ${changeStyles[clause.change].badge}`}>
+                  {changeStyles[clause.change].label}
+                </span>
+                <span className="ml-2 text-gray-600">
+                  {clause.newLabel || clause.oldLabel}
+                  {clause.oldLabel && clause.newLabel && clause.oldLabel !== clause.newLabel && (
+                    <span className="text-gray-400"> (was {clause.oldLabel})</span>
+                  )}
+                </span>
+              </div>
+              {layout === "redline" ? (
+                <p className="text-gray-800 whitespace-pre-wrap">
+                  <Redline clause={clause} />
+                </p>
+              ) : (
+                <div className="grid grid-cols-2 gap-3 text-gray-800">
+                  <p className="whitespace-pre-wrap">
+                    <Side clause={clause} side="old" />
+                  </p>
+                  <p className="whitespace-pre-wrap">
+                    <Side clause={clause} side="new" />
+                  </p>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
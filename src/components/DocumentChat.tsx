@@ -0,0 +1,180 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { Loader2, MessageSquare, Send, Trash2 } from "lucide-react";
+import { authFetch } from "../lib/firebase";
+
+interface ChatCitation {
+  chunkIndex: number;
+  excerpt: string;
+  location?: string;
+}
+
+interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+  timestamp: string;
+  citations?: ChatCitation[];
+  model?: string;
+}
+
+export default function DocumentChat({ documentId }: { documentId: string }) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState("");
+  const [isAsking, setIsAsking] = useState(false);
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+
+  // Load the stored conversation whenever the document changes
+  useEffect(() => {
+    let cancelled = false;
+    setMessages([]);
+
+    authFetch(`/api/chat-document?documentId=${encodeURIComponent(documentId)}`)
+      .then(res => res.json())
+      .then(result => {
+        if (!cancelled && result.success) setMessages(result.messages);
+      })
+      .catch(error => console.error("Failed to load chat history:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [messages]);
+
+  const askQuestion = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmed = question.trim();
+    if (!trimmed || isAsking) return;
+
+    const userMessage: ChatMessage = { role: "user", content: trimmed, timestamp: new Date().toISOString() };
+    setMessages(prev => [...prev, userMessage]);
+    setQuestion("");
+    setIsAsking(true);
+
+    try {
+      const response = await authFetch("/api/chat-document", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ documentId, question: trimmed }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to answer question");
+      }
+
+      setMessages(prev => [
+        ...prev,
+        {
+          role: "assistant",
+          content: result.answer,
+          timestamp: new Date().toISOString(),
+          citations: result.citations,
+          model: result.model,
+        },
+      ]);
+    } catch (error) {
+      console.error("Chat error:", error);
+      setMessages(prev => [
+        ...prev,
+        {
+          role: "assistant",
+          content: `Sorry, I couldn't answer that: ${error instanceof Error ? error.message : "Unknown error"}`,
+          timestamp: new Date().toISOString(),
+        },
+      ]);
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const clearHistory = async () => {
+    await authFetch(`/api/chat-document?documentId=${encodeURIComponent(documentId)}`, { method: "DELETE" });
+    setMessages([]);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-800 flex items-center">
+          <MessageSquare className="w-6 h-6 mr-2 text-blue-600" />
+          Ask About This Document
+        </h2>
+        {messages.length > 0 && (
+          <button
+            onClick={clearHistory}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded"
+            aria-label="Clear conversation"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4 max-h-96 overflow-y-auto mb-4">
+        {messages.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Ask a follow-up question, such as &quot;What happens if I terminate early?&quot;
+          </p>
+        ) : (
+          messages.map((message, index) => (
+            <div
+              key={index}
+              className={message.role === "user" ? "flex justify-end" : "flex justify-start"}
+            >
+              <div
+                className={`max-w-[85%] p-3 rounded-lg text-sm ${
+                  message.role === "user" ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-800"
+                }`}
+              >
+                <p className="whitespace-pre-wrap">{message.content}</p>
+                {message.citations && message.citations.length > 0 && (
+                  <div className="mt-2 space-y-1">
+                    {message.citations.map(citation => (
+                      <details key={citation.chunkIndex} className="text-xs text-gray-600">
+                        <summary className="cursor-pointer">
+                          Chunk {citation.chunkIndex}
+                          {citation.location && ` · ${citation.location}`}
+                        </summary>
+                        <p className="mt-1 pl-2 border-l-2 border-gray-300">{citation.excerpt}…</p>
+                      </details>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+        {isAsking && (
+          <div className="flex items-center text-sm text-gray-500">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Thinking...
+          </div>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={askQuestion} className="flex space-x-2">
+        <input
+          type="text"
+          value={question}
+          onChange={event => setQuestion(event.target.value)}
+          placeholder="Ask a question about this document"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-blue-400"
+          disabled={isAsking}
+        />
+        <button
+          type="submit"
+          disabled={isAsking || !question.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center"
+          aria-label="Send question"
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+}
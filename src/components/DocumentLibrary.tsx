@@ -0,0 +1,183 @@
+"use client";
+import { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, FileText, Library, Loader2 } from "lucide-react";
+import { authFetch } from "../lib/firebase";
+import type { DocumentSort, DocumentSummary } from "../lib/documents";
+
+interface Pagination {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+const EXTENSIONS = [".pdf", ".docx", ".doc", ".txt"];
+const PAGE_SIZE = 8;
+
+interface DocumentLibraryProps {
+  activeDocumentId?: string;
+  onOpen: (document: DocumentSummary) => void;
+  // Change this to reload the list, e.g. after an upload or delete
+  refreshKey: number;
+}
+
+export default function DocumentLibrary({ activeDocumentId, onOpen, refreshKey }: DocumentLibraryProps) {
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [search, setSearch] = useState("");
+  const [extension, setExtension] = useState("");
+  const [sort, setSort] = useState<DocumentSort>("newest");
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Back to the first page whenever the filters change
+  useEffect(() => {
+    setPage(1);
+  }, [search, extension, sort]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const params = new URLSearchParams({ sort, page: String(page), pageSize: String(PAGE_SIZE) });
+    if (search.trim()) params.set("q", search.trim());
+    if (extension) params.set("extension", extension);
+
+    setIsLoading(true);
+    // Debounce typing in the search box
+    const timer = setTimeout(() => {
+      authFetch(`/api/getDocuments?${params}`)
+        .then(res => res.json())
+        .then(result => {
+          if (cancelled) return;
+          if (!result.success) throw new Error(result.error || "Failed to load documents");
+          setDocuments(result.documents);
+          setPagination(result.pagination);
+          setError(null);
+        })
+        .catch(loadError => {
+          if (cancelled) return;
+          console.error("Failed to load documents:", loadError);
+          setError(loadError instanceof Error ? loadError.message : "Failed to load documents");
+        })
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [search, extension, sort, page, refreshKey]);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mt-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center">
+        <Library className="w-6 h-6 mr-2 text-blue-600" />
+        Your Documents
+        {isLoading && <Loader2 className="w-4 h-4 ml-2 animate-spin text-gray-400" />}
+      </h2>
+
+      <div className="space-y-2 mb-4 text-sm">
+        <input
+          type="search"
+          value={search}
+          onChange={event => setSearch(event.target.value)}
+          placeholder="Search by file name"
+          aria-label="Search documents by file name"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-blue-400"
+        />
+        <div className="flex space-x-2">
+          <select
+            value={extension}
+            onChange={event => setExtension(event.target.value)}
+            aria-label="Filter by file type"
+            className="flex-1 border border-gray-300 rounded px-2 py-1"
+          >
+            <option value="">All types</option>
+            {EXTENSIONS.map(value => (
+              <option key={value} value={value}>{value.slice(1).toUpperCase()}</option>
+            ))}
+          </select>
+          <select
+            value={sort}
+            onChange={event => setSort(event.target.value as DocumentSort)}
+            aria-label="Sort documents"
+            className="flex-1 border border-gray-300 rounded px-2 py-1"
+          >
+            <option value="newest">Newest first</option>
+            <option value="oldest">Oldest first</option>
+            <option value="name">Name</option>
+          </select>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : documents.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {isLoading ? "Loading..." : "No documents found."}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {documents.map(document => (
+            <li key={document.documentId}>
+              <button
+                onClick={() => onOpen(document)}
+                aria-current={document.documentId === activeDocumentId ? "true" : undefined}
+                className={`w-full p-3 rounded-lg border text-left flex items-start transition-colors ${
+                  document.documentId === activeDocumentId
+                    ? "border-blue-400 bg-blue-50"
+                    : "border-gray-200 hover:bg-gray-50"
+                }`}
+              >
+                <FileText className="w-5 h-5 mr-3 mt-0.5 flex-shrink-0 text-gray-500" />
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800 truncate">{document.fileName}</p>
+                  <p className="text-xs text-gray-500">
+                    {document.uploadDate ? new Date(document.uploadDate).toLocaleDateString() : "Unknown date"}
+                    {" · "}
+                    {(document.fileSize / 1024).toFixed(0)} KB
+                    {document.totalPages !== undefined && ` · ${document.totalPages} pages`}
+                    {document.language && document.language !== "und" && ` · ${document.language.toUpperCase()}`}
+                  </p>
+                  {document.chunksFailed > 0 && (
+                    <p className="text-xs text-amber-700">
+                      {document.chunksFailed >= document.totalChunks
+                        ? "Not embedded yet"
+                        : `${document.chunksFailed} of ${document.totalChunks} chunks not embedded`}
+                    </p>
+                  )}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+            className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span>
+            Page {pagination.page} of {pagination.totalPages}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= pagination.totalPages}
+            className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+            aria-label="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
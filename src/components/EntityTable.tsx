@@ -0,0 +1,112 @@
+"use client";
+import { useMemo } from "react";
+import { CalendarPlus } from "lucide-react";
+import {
+  EntityExtraction,
+  EntitySource,
+  collectDeadlines,
+  formatPeriod,
+  toICalendar,
+} from "../lib/entityExtraction";
+
+interface EntityRow {
+  primary: string;
+  detail: string;
+  source: EntitySource;
+}
+
+function EntitySection({ title, rows }: { title: string; rows: EntityRow[] }) {
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="mb-4">
+      <h4 className="text-sm font-semibold text-gray-700 mb-1">{title}</h4>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border border-gray-200">
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={index} className="border-t border-gray-200 align-top">
+                <td className="px-3 py-2 font-medium text-gray-800 whitespace-nowrap">{row.primary}</td>
+                <td className="px-3 py-2 text-gray-700">{row.detail}</td>
+                <td className="px-3 py-2 text-gray-600 italic">
+                  &ldquo;{row.source.quote}&rdquo;
+                  <span className="block not-italic text-xs text-gray-400">
+                    Chunk {row.source.chunkIndex}
+                    {!row.source.quoteVerified && (
+                      <span className="text-orange-600"> · Quote not found verbatim</span>
+                    )}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default function EntityTable({ entities, fileName }: { entities: EntityExtraction; fileName: string }) {
+  const deadlines = useMemo(() => collectDeadlines(entities), [entities]);
+
+  const downloadCalendar = () => {
+    const blob = new Blob([toICalendar(deadlines, fileName)], { type: "text/calendar;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${fileName.replace(/\.[^.]+$/, "")}-deadlines.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="mt-4">
+      <EntitySection
+        title="Parties"
+        rows={entities.parties.map(party => ({ primary: party.name, detail: party.role, source: party }))}
+      />
+      <EntitySection
+        title="Key dates"
+        rows={entities.dates.map(entry => ({
+          primary: entry.date,
+          detail: `${entry.kind}${entry.description ? `: ${entry.description}` : ""}`,
+          source: entry,
+        }))}
+      />
+      <EntitySection
+        title="Notice periods"
+        rows={entities.noticePeriods.map(period => ({
+          primary: formatPeriod(period),
+          detail: `${period.purpose}${period.description ? `: ${period.description}` : ""}`,
+          source: period,
+        }))}
+      />
+      <EntitySection
+        title="Amounts"
+        rows={entities.amounts.map(amount => ({
+          primary: new Intl.NumberFormat(undefined, { style: "currency", currency: amount.currency }).format(amount.value),
+          detail: amount.description,
+          source: amount,
+        }))}
+      />
+      <EntitySection
+        title="Renewal"
+        rows={entities.renewals.map(renewal => ({
+          primary: renewal.automatic ? "Automatic" : "Optional",
+          detail: [renewal.term, renewal.description].filter(Boolean).join(": "),
+          source: renewal,
+        }))}
+      />
+
+      {deadlines.length > 0 && (
+        <button
+          onClick={downloadCalendar}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-white transition-colors flex items-center"
+        >
+          <CalendarPlus className="w-4 h-4 mr-2" />
+          Add {deadlines.length} {deadlines.length === 1 ? "deadline" : "deadlines"} to calendar (.ics)
+        </button>
+      )}
+    </div>
+  );
+}
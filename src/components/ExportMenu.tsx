@@ -0,0 +1,108 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportableAnalysis,
+  PDF_UNSUPPORTED_MESSAGE,
+  canExportAsPdf,
+  exportAnalyses,
+  exportFileName,
+} from "../lib/analysisExport";
+
+interface ExportMenuProps {
+  analyses: ExportableAnalysis[];
+  // Text next to the icon; icon only when omitted
+  label?: string;
+  disabled?: boolean;
+}
+
+export default function ExportMenu({ analyses, label, disabled }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on a click outside the menu or on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    document.addEventListener("keydown", handleKey);
+    return () => {
+      document.removeEventListener("mousedown", handleClick);
+      document.removeEventListener("keydown", handleKey);
+    };
+  }, [isOpen]);
+
+  // Analyses in non-Latin scripts go to DOCX or Markdown instead
+  const pdfAvailable = canExportAsPdf(analyses);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setExporting(format);
+    try {
+      const blob = await exportAnalyses(analyses, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = exportFileName(analyses, format);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Export error:", error);
+      alert(`Failed to export: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled || analyses.length === 0 || exporting !== null}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-label={label ? undefined : "Download analysis"}
+        title={label ? undefined : "Download analysis"}
+        className={`text-gray-400 hover:text-gray-600 rounded flex items-center disabled:opacity-40 ${
+          label ? "px-3 py-1 text-sm border border-gray-300 hover:bg-gray-50" : "p-2"
+        }`}
+      >
+        {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        {label && <span className="ml-2 text-gray-600">{label}</span>}
+      </button>
+
+      {isOpen && (
+        <ul
+          role="menu"
+          className="absolute right-0 z-10 mt-1 w-40 bg-white border border-gray-200 rounded-lg shadow-lg py-1 text-sm"
+        >
+          {EXPORT_FORMATS.map(({ format, label: formatLabel }) => {
+            const unavailable = format === "pdf" && !pdfAvailable;
+            return (
+              <li key={format} role="none">
+                <button
+                  role="menuitem"
+                  onClick={() => handleExport(format)}
+                  disabled={unavailable}
+                  title={unavailable ? PDF_UNSUPPORTED_MESSAGE : undefined}
+                  className="w-full px-3 py-2 text-left text-gray-700 hover:bg-gray-50 disabled:text-gray-400 disabled:hover:bg-white disabled:cursor-not-allowed"
+                >
+                  {formatLabel}
+                  {unavailable && <span className="block text-xs">Use DOCX or Markdown for this script</span>}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
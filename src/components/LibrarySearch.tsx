@@ -0,0 +1,131 @@
+"use client";
+import { FormEvent, ReactNode, useState } from "react";
+import { FileText, Loader2, Search } from "lucide-react";
+import { authFetch } from "../lib/firebase";
+import type { SearchResult } from "../lib/search";
+import type { TextRange } from "../lib/sentences";
+
+interface LibrarySearchProps {
+  onOpen: (document: { documentId: string; fileName: string }) => void;
+}
+
+// The snippet with its matching words marked
+function highlight(snippet: string, ranges: TextRange[]): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let position = 0;
+  for (const range of ranges) {
+    if (range.start < position) continue;
+    if (range.start > position) nodes.push(snippet.slice(position, range.start));
+    nodes.push(
+      <mark key={range.start} className="bg-yellow-200 rounded">
+        {snippet.slice(range.start, range.end)}
+      </mark>
+    );
+    position = range.end;
+  }
+  nodes.push(snippet.slice(position));
+  return nodes;
+}
+
+// Search the text of every stored document, by keyword and by meaning
+export default function LibrarySearch({ onOpen }: LibrarySearchProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [semantic, setSemantic] = useState(true);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Searches run on submit rather than while typing, since each one embeds the query
+  const handleSearch = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!query.trim()) return;
+
+    setIsSearching(true);
+    setError(null);
+    try {
+      const response = await authFetch(`/api/search?${new URLSearchParams({ q: query.trim() })}`);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Search failed");
+      }
+      setResults(result.results);
+      setSemantic(result.semantic);
+    } catch (searchError) {
+      console.error("Search error:", searchError);
+      setError(searchError instanceof Error ? searchError.message : "Search failed");
+      setResults(null);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mt-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center">
+        <Search className="w-6 h-6 mr-2 text-blue-600" />
+        Search Contents
+      </h2>
+
+      <form onSubmit={handleSearch} role="search" className="flex space-x-2 mb-4 text-sm">
+        <input
+          type="search"
+          value={query}
+          onChange={event => setQuery(event.target.value)}
+          placeholder="e.g. indemnity cap"
+          aria-label="Search the text of your documents"
+          maxLength={500}
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-blue-400"
+        />
+        <button
+          type="submit"
+          disabled={isSearching || !query.trim()}
+          aria-label="Search"
+          className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+        >
+          {isSearching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+        </button>
+      </form>
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+
+      {results && (
+        <div aria-live="polite">
+          {!semantic && (
+            <p className="text-xs text-amber-700 mb-2">
+              Matched on keywords only; passages in other words could not be searched just now.
+            </p>
+          )}
+          {results.length === 0 ? (
+            <p className="text-sm text-gray-500">No passages found.</p>
+          ) : (
+            <ul className="space-y-2">
+              {results.map(result => (
+                <li key={`${result.documentId}-${result.chunkIndex}`}>
+                  <button
+                    onClick={() => onOpen({ documentId: result.documentId, fileName: result.fileName })}
+                    className="w-full p-3 rounded-lg border border-gray-200 hover:bg-gray-50 text-left transition-colors"
+                  >
+                    <p className="font-medium text-gray-800 flex items-center min-w-0">
+                      <FileText className="w-4 h-4 mr-2 flex-shrink-0 text-gray-500" />
+                      <span className="truncate">{result.fileName}</span>
+                    </p>
+                    <p className="text-xs text-gray-500 mb-1">
+                      Chunk {result.chunkIndex + 1}
+                      {result.totalChunks > 0 && ` of ${result.totalChunks}`}
+                      {result.location && ` · ${result.location}`}
+                    </p>
+                    <p className="text-sm text-gray-700">{highlight(result.snippet, result.highlights)}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
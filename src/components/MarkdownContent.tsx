@@ -0,0 +1,243 @@
+"use client";
+import { Fragment, ReactNode, useEffect, useId, useRef, useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import type { TextRange } from "../lib/sentences";
+import {
+  InlineRun,
+  MarkdownBlock,
+  MarkdownDocument,
+  MarkdownList,
+  TextLine,
+  splitSections,
+} from "../lib/markdown";
+
+interface MarkdownContentProps {
+  markdown: MarkdownDocument;
+  // Part of the plain text to mark, e.g. the sentence being read aloud
+  highlight?: TextRange | null;
+  // Offer a table of contents when the text is long enough to need one
+  showContents?: boolean;
+}
+
+// Contents are listed for texts with at least this many sections and characters
+const CONTENTS_MIN_SECTIONS = 3;
+const CONTENTS_MIN_CHARS = 2000;
+
+function renderRun(run: InlineRun, text: string, marked: boolean, key: number): ReactNode {
+  let node: ReactNode = text;
+  if (run.code) node = <code className="px-1 bg-gray-200 rounded text-[0.9em]">{node}</code>;
+  if (run.italic) node = <em>{node}</em>;
+  if (run.bold) node = <strong className="font-semibold">{node}</strong>;
+  if (run.href) {
+    node = (
+      <a href={run.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">
+        {node}
+      </a>
+    );
+  }
+  if (marked) node = <mark className="bg-yellow-200 rounded">{node}</mark>;
+  return <Fragment key={key}>{node}</Fragment>;
+}
+
+// A line's runs, cut where the highlight starts and ends
+function Line({ line, highlight }: { line: TextLine; highlight?: TextRange | null }) {
+  const nodes: ReactNode[] = [];
+  let offset = line.offset;
+
+  for (const run of line.runs) {
+    const runStart = offset;
+    offset += run.text.length;
+    const cuts = [0, run.text.length];
+    if (highlight) {
+      for (const point of [highlight.start - runStart, highlight.end - runStart]) {
+        if (point > 0 && point < run.text.length) cuts.push(point);
+      }
+    }
+    cuts.sort((a, b) => a - b);
+
+    for (let index = 0; index < cuts.length - 1; index++) {
+      const [from, to] = [cuts[index], cuts[index + 1]];
+      const marked = !!highlight && runStart + from >= highlight.start && runStart + to <= highlight.end;
+      nodes.push(renderRun(run, run.text.slice(from, to), marked, nodes.length));
+    }
+  }
+
+  return <>{nodes}</>;
+}
+
+function List({ list, highlight }: { list: MarkdownList; highlight?: TextRange | null }) {
+  const items = list.items.map((item, index) => (
+    <li key={index}>
+      <Line line={item.line} highlight={highlight} />
+      {item.children && <List list={item.children} highlight={highlight} />}
+    </li>
+  ));
+  return list.ordered ? (
+    <ol start={list.start} className="list-decimal pl-5 mb-2 space-y-1">{items}</ol>
+  ) : (
+    <ul className="list-disc pl-5 mb-2 space-y-1">{items}</ul>
+  );
+}
+
+const headingClasses = ["text-base font-semibold", "text-sm font-semibold", "text-sm font-medium"];
+
+function Block({ block, topLevel, highlight }: { block: MarkdownBlock; topLevel: number; highlight?: TextRange | null }) {
+  switch (block.type) {
+    case "heading": {
+      // Analysis cards sit under an h3, so the highest heading in the text is an h4
+      const depth = Math.min(block.level - topLevel, 2);
+      const Tag = (["h4", "h5", "h6"] as const)[depth];
+      return (
+        <Tag className={`${headingClasses[depth]} text-gray-800 mt-3 mb-1`}>
+          <Line line={block.line} highlight={highlight} />
+        </Tag>
+      );
+    }
+    case "paragraph":
+      return (
+        <p className="mb-2">
+          <Line line={block.line} highlight={highlight} />
+        </p>
+      );
+    case "quote":
+      return (
+        <blockquote className="border-l-4 border-gray-300 pl-3 mb-2 text-gray-600">
+          <Line line={block.line} highlight={highlight} />
+        </blockquote>
+      );
+    case "code":
+      return (
+        <pre className="bg-gray-100 p-2 rounded mb-2 overflow-x-auto text-xs">
+          <Line line={block.line} highlight={highlight} />
+        </pre>
+      );
+    case "list":
+      return <List list={block.list} highlight={highlight} />;
+    case "table":
+      return (
+        <div className="overflow-x-auto mb-2">
+          <table className="min-w-full border border-gray-200 text-left">
+            <thead className="bg-gray-100">
+              <tr>
+                {block.header.map((cell, index) => (
+                  <th key={index} scope="col" className="px-2 py-1 border border-gray-200 font-semibold">
+                    <Line line={cell} highlight={highlight} />
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, index) => (
+                    <td key={index} className="px-2 py-1 border border-gray-200 align-top">
+                      <Line line={cell} highlight={highlight} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case "rule":
+      return <hr className="my-3 border-gray-200" />;
+  }
+}
+
+// Analysis text rendered from Markdown, with each top-level section collapsible
+export default function MarkdownContent({ markdown, highlight, showContents = false }: MarkdownContentProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  // Kept to letters and digits so the ids work in link fragments
+  const idPrefix = `md-${useId().replace(/[^a-zA-Z0-9]/g, "")}`;
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  const sections = splitSections(markdown);
+  const topLevel = Math.min(...markdown.blocks.flatMap(block => (block.type === "heading" ? [block.level] : [])));
+  const headed = sections.filter(section => section.heading);
+  const hasContents = showContents && headed.length >= CONTENTS_MIN_SECTIONS && markdown.text.length >= CONTENTS_MIN_CHARS;
+
+  // Keep the marked text in view as it moves
+  useEffect(() => {
+    if (highlight) containerRef.current?.querySelector("mark")?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [highlight]);
+
+  const setSectionOpen = (index: number, open: boolean) =>
+    setCollapsed(previous => {
+      const next = new Set(previous);
+      if (open) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+
+  const sectionId = (index: number) => `${idPrefix}-section-${index}`;
+
+  return (
+    <div ref={containerRef} className="text-sm text-gray-800">
+      {hasContents && (
+        <nav aria-label="Contents" className="mb-3 p-3 bg-white border border-gray-200 rounded">
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-semibold text-gray-700">Contents</span>
+            <button
+              onClick={() => setCollapsed(collapsed.size ? new Set() : new Set(sections.map((_, index) => index)))}
+              className="text-xs text-blue-600 hover:underline"
+            >
+              {collapsed.size ? "Expand all" : "Collapse all"}
+            </button>
+          </div>
+          <ol className="list-decimal pl-5 space-y-0.5">
+            {sections.map((section, index) =>
+              section.heading ? (
+                <li key={index}>
+                  <a
+                    href={`#${sectionId(index)}`}
+                    onClick={() => setSectionOpen(index, true)}
+                    className="text-blue-600 hover:underline"
+                  >
+                    <Line line={section.heading.line} />
+                  </a>
+                </li>
+              ) : null
+            )}
+          </ol>
+        </nav>
+      )}
+
+      {sections.map((section, index) => {
+        if (!section.heading) {
+          return section.blocks.map((block, blockIndex) => (
+            <Block key={`${index}-${blockIndex}`} block={block} topLevel={topLevel} highlight={highlight} />
+          ));
+        }
+
+        // A section being read aloud is opened so the highlight can be seen
+        const reading = !!highlight && highlight.start >= section.start && highlight.start < section.end;
+        const open = !collapsed.has(index) || reading;
+        const bodyId = `${sectionId(index)}-body`;
+        const Chevron = open ? ChevronDown : ChevronRight;
+
+        return (
+          <section key={index} id={sectionId(index)} aria-labelledby={`${sectionId(index)}-heading`}>
+            <h4 id={`${sectionId(index)}-heading`} className={`${headingClasses[0]} text-gray-800 mt-3 mb-1`}>
+              <button
+                onClick={() => setSectionOpen(index, !open)}
+                aria-expanded={open}
+                aria-controls={bodyId}
+                className="flex items-start text-left hover:text-blue-700 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <Chevron className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" aria-hidden="true" />
+                <span>
+                  <Line line={section.heading.line} highlight={highlight} />
+                </span>
+              </button>
+            </h4>
+            <div id={bodyId} hidden={!open}>
+              {section.blocks.map((block, blockIndex) => (
+                <Block key={blockIndex} block={block} topLevel={topLevel} highlight={highlight} />
+              ))}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
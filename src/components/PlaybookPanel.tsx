@@ -0,0 +1,274 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Loader2, Plus, Scale, Trash2, Upload, X } from "lucide-react";
+import { authFetch } from "../lib/firebase";
+import { PLAYBOOK_LIMITS, Playbook } from "../lib/playbookComparison";
+import { SUPPORTED_FILE_ACCEPT } from "../lib/fileTypes";
+
+interface PlaybookPanelProps {
+  // True while a comparison is running
+  isComparing: boolean;
+  // True while another analysis is running
+  disabled: boolean;
+  onCompare: (playbookId: string) => void;
+}
+
+const RULES_PLACEHOLDER = `One rule per paragraph or list item, for example:
+
+Limitation of liability: Capped at 12 months' fees, excluding fraud and death or personal injury.
+Governing law: English law, with the courts of London.`;
+
+export default function PlaybookPanel({ isComparing, disabled, onCompare }: PlaybookPanelProps) {
+  const [playbooks, setPlaybooks] = useState<Playbook[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [rules, setRules] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadPlaybooks = useCallback(async () => {
+    try {
+      const response = await authFetch("/api/playbooks");
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to load playbooks");
+      }
+      setPlaybooks(result.playbooks);
+      setSelectedId(current =>
+        result.playbooks.some((playbook: Playbook) => playbook.id === current)
+          ? current
+          : result.playbooks[0]?.id || ""
+      );
+    } catch (loadError) {
+      console.error("Failed to load playbooks:", loadError);
+      setError(loadError instanceof Error ? loadError.message : "Failed to load playbooks");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPlaybooks();
+  }, [loadPlaybooks]);
+
+  const resetForm = () => {
+    setIsCreating(false);
+    setName("");
+    setRules("");
+    setFile(null);
+    setError(null);
+  };
+
+  // A playbook comes from the uploaded document when one is chosen, otherwise from the pasted rules
+  const handleSave = async () => {
+    if (!file && !name.trim()) {
+      setError("Name is required");
+      return;
+    }
+    if (!file && !rules.trim()) {
+      setError("Paste some rules or choose a playbook document");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      let body: BodyInit;
+      const headers: Record<string, string> = {};
+      if (file) {
+        const formData = new FormData();
+        formData.append("document", file);
+        formData.append("name", name.trim());
+        body = formData;
+      } else {
+        headers["Content-Type"] = "application/json";
+        body = JSON.stringify({ name: name.trim(), rules });
+      }
+
+      const response = await authFetch("/api/playbooks", { method: "POST", headers, body });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.details || result.error || "Failed to save playbook");
+      }
+
+      resetForm();
+      await loadPlaybooks();
+      setSelectedId(result.playbook.id);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Failed to save playbook");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selected = playbooks.find(playbook => playbook.id === selectedId);
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    if (!confirm(`Delete the "${selected.name}" playbook?`)) return;
+
+    try {
+      const response = await authFetch(`/api/playbooks/${encodeURIComponent(selected.id)}`, { method: "DELETE" });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to delete playbook");
+      }
+      await loadPlaybooks();
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : "Failed to delete playbook");
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-800 flex items-center">
+          <Scale className="w-6 h-6 mr-2 text-amber-600" />
+          Playbook Comparison
+        </h2>
+        {!isCreating && (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="px-2 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            New
+          </button>
+        )}
+      </div>
+
+      {!isCreating && (
+        <div className="space-y-3 text-sm">
+          {playbooks.length === 0 ? (
+            <p className="text-gray-500">
+              Add a playbook of your standard positions to check contracts against it.
+            </p>
+          ) : (
+            <>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={selectedId}
+                  onChange={event => setSelectedId(event.target.value)}
+                  aria-label="Playbook"
+                  className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1"
+                >
+                  {playbooks.map(playbook => (
+                    <option key={playbook.id} value={playbook.id}>{playbook.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleDelete}
+                  disabled={!selected}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  aria-label={selected ? `Delete ${selected.name}` : "Delete playbook"}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              {selected && (
+                <details className="text-gray-600">
+                  <summary className="cursor-pointer">
+                    {selected.rules.length} {selected.rules.length === 1 ? "rule" : "rules"}
+                    {selected.sourceFileName && ` from ${selected.sourceFileName}`}
+                  </summary>
+                  <ol className="mt-2 space-y-1 max-h-48 overflow-y-auto">
+                    {selected.rules.map(rule => (
+                      <li key={rule.id}>
+                        <span className="font-medium text-gray-800">{rule.id}. {rule.topic}:</span> {rule.position}
+                      </li>
+                    ))}
+                  </ol>
+                </details>
+              )}
+              <button
+                onClick={() => selected && onCompare(selected.id)}
+                disabled={!selected || disabled || isComparing}
+                className="w-full p-3 border rounded-lg flex items-center justify-center transition-colors disabled:opacity-50 bg-amber-50 hover:bg-amber-100 border-amber-200 text-gray-800 font-medium"
+              >
+                {isComparing ? (
+                  <Loader2 className="w-5 h-5 mr-2 animate-spin text-amber-600" />
+                ) : (
+                  <Scale className="w-5 h-5 mr-2 text-amber-600" />
+                )}
+                Compare this document
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {isCreating && (
+        <div className="space-y-2 text-sm">
+          <input
+            value={name}
+            onChange={event => setName(event.target.value)}
+            maxLength={PLAYBOOK_LIMITS.name}
+            placeholder={file ? "Name (defaults to the file name)" : "Name, e.g. Supplier contracts 2025"}
+            aria-label="Playbook name"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-blue-400"
+          />
+          {file ? (
+            <div className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+              <span className="truncate text-gray-700">{file.name}</span>
+              <button
+                onClick={() => setFile(null)}
+                className="p-1 text-gray-400 hover:text-gray-600"
+                aria-label="Remove playbook document"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ) : (
+            <textarea
+              value={rules}
+              onChange={event => setRules(event.target.value)}
+              maxLength={PLAYBOOK_LIMITS.text}
+              rows={6}
+              placeholder={RULES_PLACEHOLDER}
+              aria-label="Playbook rules"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-blue-400"
+            />
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={SUPPORTED_FILE_ACCEPT}
+            onChange={event => setFile(event.target.files?.[0] || null)}
+            className="hidden"
+          />
+
+          {error && <p className="text-red-600">{error}</p>}
+
+          <div className="flex justify-between">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1 text-blue-600 hover:bg-blue-50 rounded-lg flex items-center"
+            >
+              <Upload className="w-4 h-4 mr-1" />
+              {file ? "Change file" : "Upload document"}
+            </button>
+            <div className="flex space-x-2">
+              <button
+                onClick={resetForm}
+                className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center"
+              >
+                <X className="w-4 h-4 mr-1" />
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 flex items-center"
+              >
+                {isSaving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                Add playbook
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {error && !isCreating && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
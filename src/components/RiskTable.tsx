@@ -0,0 +1,136 @@
+"use client";
+import { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import {
+  RISK_CATEGORIES,
+  RISK_SEVERITIES,
+  RiskItem,
+  SEVERITY_ORDER,
+} from "../lib/riskAssessment";
+
+type SortKey = "severity" | "category" | "chunkIndex";
+
+const severityStyles: Record<string, string> = {
+  HIGH: "bg-red-100 text-red-700",
+  MEDIUM: "bg-yellow-100 text-yellow-800",
+  LOW: "bg-green-100 text-green-700",
+};
+
+export default function RiskTable({ risks }: { risks: RiskItem[] }) {
+  const [sortKey, setSortKey] = useState<SortKey>("severity");
+  const [ascending, setAscending] = useState(true);
+  const [severityFilter, setSeverityFilter] = useState<string>("all");
+  const [categoryFilter, setCategoryFilter] = useState<string>("all");
+
+  const visibleRisks = useMemo(() => {
+    const compare = (a: RiskItem, b: RiskItem) => {
+      switch (sortKey) {
+        case "severity":
+          return SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity];
+        case "category":
+          return a.category.localeCompare(b.category);
+        case "chunkIndex":
+          return a.chunkIndex - b.chunkIndex;
+      }
+    };
+
+    return risks
+      .filter(risk => severityFilter === "all" || risk.severity === severityFilter)
+      .filter(risk => categoryFilter === "all" || risk.category === categoryFilter)
+      .sort((a, b) => (ascending ? compare(a, b) : compare(b, a)));
+  }, [risks, sortKey, ascending, severityFilter, categoryFilter]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(true);
+    }
+  };
+
+  const sortHeader = (key: SortKey, label: string) => (
+    <th className="px-3 py-2 text-left" aria-sort={sortKey === key ? (ascending ? "ascending" : "descending") : "none"}>
+      <button onClick={() => toggleSort(key)} className="flex items-center font-medium text-gray-700">
+        {label}
+        {sortKey === key && (ascending ? <ArrowUp className="w-3 h-3 ml-1" /> : <ArrowDown className="w-3 h-3 ml-1" />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="mt-4">
+      <div className="flex flex-wrap gap-3 mb-3 text-sm">
+        <label className="flex items-center space-x-2">
+          <span className="text-gray-600">Severity</span>
+          <select
+            value={severityFilter}
+            onChange={event => setSeverityFilter(event.target.value)}
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            <option value="all">All</option>
+            {RISK_SEVERITIES.map(severity => (
+              <option key={severity} value={severity}>{severity}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span className="text-gray-600">Category</span>
+          <select
+            value={categoryFilter}
+            onChange={event => setCategoryFilter(event.target.value)}
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            <option value="all">All</option>
+            {RISK_CATEGORIES.map(category => (
+              <option key={category} value={category}>{category}</option>
+            ))}
+          </select>
+        </label>
+        <span className="text-gray-500 self-center">
+          Showing {visibleRisks.length} of {risks.length}
+        </span>
+      </div>
+
+      {visibleRisks.length === 0 ? (
+        <p className="text-sm text-gray-500">No risks match the current filters.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm border border-gray-200">
+            <thead className="bg-gray-100">
+              <tr>
+                {sortHeader("severity", "Severity")}
+                {sortHeader("category", "Category")}
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Clause</th>
+                {sortHeader("chunkIndex", "Chunk")}
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Explanation</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Mitigation</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRisks.map((risk, index) => (
+                <tr key={index} className="border-t border-gray-200 align-top">
+                  <td className="px-3 py-2">
+                    <span className={`px-2 py-0.5 rounded text-xs font-semibold ${severityStyles[risk.severity]}`}>
+                      {risk.severity}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-gray-700">{risk.category}</td>
+                  <td className="px-3 py-2 text-gray-800 italic">
+                    &ldquo;{risk.clause}&rdquo;
+                    {!risk.quoteVerified && (
+                      <span className="block not-italic text-xs text-orange-600">Quote not found verbatim</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-gray-700">{risk.chunkIndex}</td>
+                  <td className="px-3 py-2 text-gray-700">{risk.explanation}</td>
+                  <td className="px-3 py-2 text-gray-700">{risk.mitigation}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
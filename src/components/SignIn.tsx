@@ -0,0 +1,124 @@
+"use client";
+import { useState } from "react";
+import { LogIn, Loader2 } from "lucide-react";
+import {
+  GoogleAuthProvider,
+  createUserWithEmailAndPassword,
+  signInWithEmailAndPassword,
+  signInWithPopup,
+} from "firebase/auth";
+import { auth } from "../lib/firebase";
+
+// Firebase error codes mapped to messages a user can act on
+function describeAuthError(error: unknown): string {
+  const code = (error as { code?: string })?.code || "";
+  switch (code) {
+    case "auth/invalid-credential":
+    case "auth/wrong-password":
+    case "auth/user-not-found":
+      return "Incorrect email or password.";
+    case "auth/email-already-in-use":
+      return "An account with this email already exists. Sign in instead.";
+    case "auth/weak-password":
+      return "Choose a password with at least 6 characters.";
+    case "auth/invalid-email":
+      return "Enter a valid email address.";
+    case "auth/popup-closed-by-user":
+      return "Sign-in was cancelled.";
+    default:
+      return error instanceof Error ? error.message : "Sign-in failed";
+  }
+}
+
+export default function SignIn() {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+    } catch (authError) {
+      console.error("Sign-in error:", authError);
+      setError(describeAuthError(authError));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault();
+    run(() =>
+      isCreating
+        ? createUserWithEmailAndPassword(auth, email, password)
+        : signInWithEmailAndPassword(auth, email, password)
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 max-w-md mx-auto">
+      <h2 className="text-xl font-semibold text-gray-800 mb-2 flex items-center">
+        <LogIn className="w-6 h-6 mr-2 text-blue-600" />
+        {isCreating ? "Create an Account" : "Sign In"}
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Your documents and analyses are private to your account.
+      </p>
+
+      <form onSubmit={submit} className="space-y-3">
+        <input
+          type="email"
+          value={email}
+          onChange={event => setEmail(event.target.value)}
+          placeholder="Email"
+          aria-label="Email"
+          autoComplete="email"
+          required
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-blue-400"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={event => setPassword(event.target.value)}
+          placeholder="Password"
+          aria-label="Password"
+          autoComplete={isCreating ? "new-password" : "current-password"}
+          required
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-blue-400"
+        />
+
+        {error && (
+          <p className="text-sm text-red-600" role="alert">{error}</p>
+        )}
+
+        <button
+          type="submit"
+          disabled={isWorking}
+          className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center justify-center"
+        >
+          {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {isCreating ? "Create Account" : "Sign In"}
+        </button>
+      </form>
+
+      <button
+        onClick={() => run(() => signInWithPopup(auth, new GoogleAuthProvider()))}
+        disabled={isWorking}
+        className="w-full mt-3 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+      >
+        Continue with Google
+      </button>
+
+      <button
+        onClick={() => setIsCreating(!isCreating)}
+        className="w-full mt-3 text-sm text-blue-600 hover:underline"
+      >
+        {isCreating ? "Already have an account? Sign in" : "New here? Create an account"}
+      </button>
+    </div>
+  );
+}
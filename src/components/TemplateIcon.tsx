@@ -0,0 +1,37 @@
+"use client";
+import {
+  AlertTriangle,
+  BookOpen,
+  Brain,
+  CalendarDays,
+  ClipboardCheck,
+  Eye,
+  FileText,
+  Gavel,
+  Lock,
+  LucideIcon,
+  Scale,
+  Search,
+  Shield,
+} from "lucide-react";
+import type { TemplateIconName } from "../lib/analysisTemplates";
+
+const ICONS: Record<TemplateIconName, LucideIcon> = {
+  "file-text": FileText,
+  brain: Brain,
+  "alert-triangle": AlertTriangle,
+  "calendar-days": CalendarDays,
+  search: Search,
+  eye: Eye,
+  shield: Shield,
+  scale: Scale,
+  "clipboard-check": ClipboardCheck,
+  gavel: Gavel,
+  "book-open": BookOpen,
+  lock: Lock,
+};
+
+export default function TemplateIcon({ icon, className }: { icon?: string; className?: string }) {
+  const Icon = ICONS[icon as TemplateIconName] || FileText;
+  return <Icon className={className} aria-hidden="true" />;
+}
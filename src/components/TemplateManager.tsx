@@ -0,0 +1,233 @@
+"use client";
+import { useState } from "react";
+import { Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import { authFetch } from "../lib/firebase";
+import {
+  AnalysisTemplate,
+  OUTPUT_FORMATS,
+  TEMPLATE_ICONS,
+  TEMPLATE_LIMITS,
+  TemplateInput,
+  validateTemplateInput,
+} from "../lib/analysisTemplates";
+import TemplateIcon from "./TemplateIcon";
+
+interface TemplateManagerProps {
+  templates: AnalysisTemplate[];
+  currentUserId: string;
+  // Called after a template is created, changed or deleted
+  onChanged: () => void;
+}
+
+const EMPTY_FORM: TemplateInput = {
+  name: "",
+  icon: "clipboard-check",
+  description: "",
+  prompt: "",
+  outputFormat: "markdown",
+};
+
+export default function TemplateManager({ templates, currentUserId, onChanged }: TemplateManagerProps) {
+  const [form, setForm] = useState<TemplateInput | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const customTemplates = templates.filter(template => !template.builtIn);
+
+  const startEditing = (template: AnalysisTemplate | null) => {
+    setEditingId(template?.id || null);
+    setForm(template
+      ? {
+          name: template.name,
+          icon: template.icon,
+          description: template.description,
+          prompt: template.prompt,
+          outputFormat: template.outputFormat,
+        }
+      : EMPTY_FORM);
+    setError(null);
+  };
+
+  const update = (changes: Partial<TemplateInput>) => setForm(current => (current ? { ...current, ...changes } : current));
+
+  const handleSave = async () => {
+    if (!form) return;
+    const { errors } = validateTemplateInput(form);
+    if (errors.length > 0) {
+      setError(errors.join(". "));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await authFetch(
+        editingId ? `/api/templates/${encodeURIComponent(editingId)}` : "/api/templates",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(form),
+        }
+      );
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.details || result.error || "Failed to save template");
+      }
+
+      setForm(null);
+      setEditingId(null);
+      setError(null);
+      onChanged();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Failed to save template");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: AnalysisTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template for everyone?`)) return;
+
+    try {
+      const response = await authFetch(`/api/templates/${encodeURIComponent(template.id)}`, { method: "DELETE" });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to delete template");
+      }
+      onChanged();
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : "Failed to delete template");
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-medium text-gray-800">Custom templates</h3>
+        {!form && (
+          <button
+            onClick={() => startEditing(null)}
+            className="px-2 py-1 text-blue-600 hover:bg-blue-50 rounded flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            New
+          </button>
+        )}
+      </div>
+
+      {customTemplates.length === 0 && !form && (
+        <p className="text-gray-500">No custom templates yet.</p>
+      )}
+
+      {!form && (
+        <ul className="space-y-1">
+          {customTemplates.map(template => (
+            <li key={template.id} className="flex items-center justify-between">
+              <span className="flex items-center min-w-0">
+                <TemplateIcon icon={template.icon} className="w-4 h-4 mr-2 flex-shrink-0 text-gray-500" />
+                <span className="truncate text-gray-700">{template.name}</span>
+                <span className="ml-1 text-xs text-gray-400">v{template.version}</span>
+              </span>
+              {template.createdBy === currentUserId && (
+                <span className="flex flex-shrink-0">
+                  <button
+                    onClick={() => startEditing(template)}
+                    className="p-1 text-gray-400 hover:text-gray-600"
+                    aria-label={`Edit ${template.name}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(template)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    aria-label={`Delete ${template.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {form && (
+        <div className="space-y-2">
+          <input
+            value={form.name}
+            onChange={event => update({ name: event.target.value })}
+            maxLength={TEMPLATE_LIMITS.name}
+            placeholder="Name, e.g. GDPR data-processing review"
+            aria-label="Template name"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-blue-400"
+          />
+          <input
+            value={form.description}
+            onChange={event => update({ description: event.target.value })}
+            maxLength={TEMPLATE_LIMITS.description}
+            placeholder="Short description shown under the name"
+            aria-label="Template description"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-blue-400"
+          />
+          <textarea
+            value={form.prompt}
+            onChange={event => update({ prompt: event.target.value })}
+            maxLength={TEMPLATE_LIMITS.prompt}
+            rows={6}
+            placeholder="Instructions for the model, e.g. which clauses to check and what to report"
+            aria-label="Template prompt"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-blue-400"
+          />
+          <div className="flex space-x-2">
+            <select
+              value={form.icon}
+              onChange={event => update({ icon: event.target.value as TemplateInput["icon"] })}
+              aria-label="Template icon"
+              className="flex-1 border border-gray-300 rounded px-2 py-1"
+            >
+              {TEMPLATE_ICONS.map(icon => (
+                <option key={icon} value={icon}>{icon}</option>
+              ))}
+            </select>
+            <select
+              value={form.outputFormat}
+              onChange={event => update({ outputFormat: event.target.value as TemplateInput["outputFormat"] })}
+              aria-label="Output format"
+              className="flex-1 border border-gray-300 rounded px-2 py-1"
+            >
+              {OUTPUT_FORMATS.filter(format => !format.reserved).map(format => (
+                <option key={format.value} value={format.value}>{format.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {error && <p className="text-red-600">{error}</p>}
+
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => {
+                setForm(null);
+                setEditingId(null);
+                setError(null);
+              }}
+              className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center"
+            >
+              <X className="w-4 h-4 mr-1" />
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 flex items-center"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+              {editingId ? "Save changes" : "Add template"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && !form && <p className="mt-2 text-red-600">{error}</p>}
+    </div>
+  );
+}
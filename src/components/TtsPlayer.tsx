@@ -1,40 +1,301 @@
 "use client";
-import { useRef } from "react";
+import { KeyboardEvent, useEffect, useMemo, useRef, useState } from "react";
+import { Download, Loader2, Pause, Play, RotateCcw, RotateCw } from "lucide-react";
+import { authFetch } from "../lib/firebase";
+import { SPEECH_LANGUAGES, findSpeechSegments } from "../lib/speech";
+import type { TextRange } from "../lib/sentences";
 
-export default function TtsPlayer({ simplifiedText }: { simplifiedText: string }) {
+interface TtsPlayerProps {
+  // Plain text to read aloud, without Markdown syntax
+  text: string;
+  // Language the text is written in; English if not known
+  language?: string;
+  // Used to name the downloaded audio file
+  fileName?: string;
+  // Told which part of the text is being read, or null when nothing is
+  onSegmentChange?: (segment: TextRange | null) => void;
+}
+
+// Audio fetched for one text and voice
+interface LoadedAudio {
+  key: string;
+  url: string;
+  // Bytes of audio per segment, when the server knows them
+  segmentBytes: number[] | null;
+}
+
+const SPEEDS = [0.75, 1, 1.25, 1.5, 2];
+const SKIP_SECONDS = 10;
+// Pause between segments, counted in characters when timings are estimated
+const SEGMENT_PAUSE_CHARS = 12;
+
+function formatTime(seconds: number): string {
+  if (!Number.isFinite(seconds)) return "0:00";
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+export default function TtsPlayer({ text, language = "en", fileName, onSegmentChange }: TtsPlayerProps) {
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const voices = SPEECH_LANGUAGES.find(entry => entry.code === language)?.voices || [];
+  const [voiceId, setVoiceId] = useState(voices[0]?.id || "");
+  const [audio, setAudio] = useState<LoadedAudio | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [speed, setSpeed] = useState(1);
 
-  const playTTS = async () => {
-    const ttsUrl = process.env.NEXT_PUBLIC_TTS_URL + "/speak";
-    const res = await fetch(ttsUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ text: simplifiedText }),
+  // Audio is fetched once per text and voice, then replayed from memory
+  const audioKey = `${language}:${voiceId}:${text}`;
+  const loaded = audio?.key === audioKey ? audio : null;
+
+  useEffect(() => {
+    if (!audio) return;
+    return () => URL.revokeObjectURL(audio.url);
+  }, [audio]);
+
+  const segments = useMemo(() => findSpeechSegments(text), [text]);
+
+  // Where each segment starts, as a share of the whole recording. The audio has
+  // a constant bitrate, so byte counts give exact positions; without them the
+  // positions are estimated from the length of each segment.
+  const segmentStarts = useMemo(() => {
+    const bytes = loaded?.segmentBytes;
+    const weights = bytes && bytes.length === segments.length
+      ? bytes
+      : segments.map(segment => segment.end - segment.start + SEGMENT_PAUSE_CHARS);
+    const total = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+    let position = 0;
+    return weights.map(weight => {
+      const start = position / total;
+      position += weight;
+      return start;
     });
+  }, [loaded, segments]);
 
-    if (!res.ok) {
-      alert("TTS error");
+  let activeSegment = -1;
+  if (loaded && duration > 0 && (isPlaying || currentTime > 0)) {
+    const progress = currentTime / duration;
+    segmentStarts.forEach((start, index) => {
+      if (start <= progress) activeSegment = index;
+    });
+  }
+
+  useEffect(() => {
+    onSegmentChange?.(segments[activeSegment] || null);
+  }, [activeSegment, segments, onSegmentChange]);
+
+  const loadAudio = async (): Promise<LoadedAudio | null> => {
+    if (loaded) return loaded;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await authFetch("/api/tts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text, language, voice: voiceId || undefined }),
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.error || "Could not generate the audio");
+      }
+
+      const segmentBytes = response.headers.get("X-Speech-Segments")?.split(",").map(Number) || null;
+      const next = { key: audioKey, url: URL.createObjectURL(await response.blob()), segmentBytes };
+      setAudio(next);
+      return next;
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Could not generate the audio");
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const togglePlayback = async () => {
+    const element = audioRef.current;
+    if (!element || isLoading) return;
+    if (isPlaying) {
+      element.pause();
       return;
     }
 
-    const blob = await res.blob();
-    const audioUrl = URL.createObjectURL(blob);
-    if (audioRef.current) {
-      audioRef.current.src = audioUrl;
-      audioRef.current.play();
+    const ready = await loadAudio();
+    if (!ready) return;
+    if (element.src !== ready.url) {
+      element.src = ready.url;
+      element.playbackRate = speed;
+    }
+    try {
+      await element.play();
+    } catch (playError) {
+      setError(playError instanceof Error ? playError.message : "Playback failed");
     }
   };
 
+  const seekTo = (seconds: number) => {
+    const element = audioRef.current;
+    if (!element || !loaded) return;
+    element.currentTime = Math.min(Math.max(seconds, 0), duration || 0);
+    setCurrentTime(element.currentTime);
+  };
+
+  const changeSpeed = (value: number) => {
+    setSpeed(value);
+    if (audioRef.current) audioRef.current.playbackRate = value;
+  };
+
+  // A new voice means new audio; stop what is playing
+  const changeVoice = (value: string) => {
+    audioRef.current?.pause();
+    audioRef.current?.removeAttribute("src");
+    setVoiceId(value);
+    setCurrentTime(0);
+    setDuration(0);
+  };
+
+  const download = async () => {
+    const ready = await loadAudio();
+    if (!ready) return;
+    const link = document.createElement("a");
+    link.href = ready.url;
+    link.download = `${(fileName || "analysis").replace(/\.[^.]+$/, "")}-audio.mp3`;
+    link.click();
+  };
+
+  // Shortcuts while focus is in the player, except where keys already do something
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement;
+    if (["INPUT", "SELECT", "BUTTON"].includes(target.tagName)) return;
+    if (event.key === " " || event.key === "k") {
+      event.preventDefault();
+      togglePlayback();
+    } else if (event.key === "ArrowLeft" || event.key === "j") {
+      event.preventDefault();
+      seekTo(currentTime - SKIP_SECONDS);
+    } else if (event.key === "ArrowRight" || event.key === "l") {
+      event.preventDefault();
+      seekTo(currentTime + SKIP_SECONDS);
+    }
+  };
+
+  const playLabel = isPlaying ? "Pause" : loaded && currentTime > 0 ? "Resume" : "Play";
+  const buttonClass = "p-2 rounded text-gray-700 hover:bg-gray-200 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
   return (
-    <div className="mt-2 p-2 bg-gray-100 rounded flex items-center space-x-2">
-      <p className="text-sm text-gray-800 flex-1">{simplifiedText}</p>
-      <button
-        onClick={playTTS}
-        className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
-      >
-        ▶ Play
-      </button>
-      <audio ref={audioRef} />
+    <div
+      role="region"
+      aria-label="Read aloud"
+      aria-keyshortcuts="Space k j l ArrowLeft ArrowRight"
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className="mt-3 p-2 bg-gray-100 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button
+          onClick={togglePlayback}
+          disabled={isLoading}
+          aria-label={isLoading ? "Loading audio" : playLabel}
+          aria-keyshortcuts="k"
+          className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400 flex items-center focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1"
+        >
+          {isLoading ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : isPlaying ? (
+            <Pause className="w-4 h-4" />
+          ) : (
+            <Play className="w-4 h-4" />
+          )}
+          <span className="ml-1">{playLabel}</span>
+        </button>
+        <button
+          onClick={() => seekTo(currentTime - SKIP_SECONDS)}
+          disabled={!loaded}
+          aria-label={`Back ${SKIP_SECONDS} seconds`}
+          aria-keyshortcuts="j"
+          className={buttonClass}
+        >
+          <RotateCcw className="w-4 h-4" />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={0.1}
+          value={Math.min(currentTime, duration || 0)}
+          onChange={event => seekTo(Number(event.target.value))}
+          disabled={!loaded || !duration}
+          aria-label="Position"
+          aria-valuetext={`${formatTime(currentTime)} of ${formatTime(duration)}`}
+          className="flex-1 min-w-[6rem] accent-blue-600"
+        />
+        <button
+          onClick={() => seekTo(currentTime + SKIP_SECONDS)}
+          disabled={!loaded}
+          aria-label={`Forward ${SKIP_SECONDS} seconds`}
+          aria-keyshortcuts="l"
+          className={buttonClass}
+        >
+          <RotateCw className="w-4 h-4" />
+        </button>
+        <span className="text-gray-600 tabular-nums" aria-hidden="true">
+          {formatTime(currentTime)} / {formatTime(duration)}
+        </span>
+        <select
+          value={speed}
+          onChange={event => changeSpeed(Number(event.target.value))}
+          aria-label="Playback speed"
+          className="border border-gray-300 rounded px-1 py-1 bg-white"
+        >
+          {SPEEDS.map(option => (
+            <option key={option} value={option}>{option}×</option>
+          ))}
+        </select>
+        {voices.length > 1 && (
+          <select
+            value={voiceId}
+            onChange={event => changeVoice(event.target.value)}
+            aria-label="Voice"
+            className="border border-gray-300 rounded px-1 py-1 bg-white"
+          >
+            {voices.map(voice => (
+              <option key={voice.id} value={voice.id}>{voice.name}</option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={download}
+          disabled={isLoading}
+          aria-label="Download audio"
+          title="Download audio"
+          className={buttonClass}
+        >
+          <Download className="w-4 h-4" />
+        </button>
+      </div>
+
+      {error && (
+        <p role="alert" className="mt-2 text-sm text-red-600">
+          {error}
+        </p>
+      )}
+
+      <audio
+        ref={audioRef}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false);
+          setCurrentTime(0);
+        }}
+        onTimeUpdate={event => setCurrentTime(event.currentTarget.currentTime)}
+        onDurationChange={event => {
+          const { duration: length } = event.currentTarget;
+          if (Number.isFinite(length)) setDuration(length);
+        }}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
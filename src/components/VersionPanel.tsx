@@ -0,0 +1,242 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { GitCompare, History, Link2, Loader2, Unlink } from "lucide-react";
+import { authFetch } from "../lib/firebase";
+import type { DocumentSummary, DocumentVersion } from "../lib/documents";
+import type { DocumentDiff } from "../lib/documentDiff";
+
+interface VersionPanelProps {
+  documentId: string;
+  // True while the explanation of changes is being generated
+  isExplaining: boolean;
+  // True while another analysis is running
+  disabled: boolean;
+  onShowDiff: (diff: DocumentDiff) => void;
+  // Explain the changes from an earlier version to the open document
+  onExplain: (earlierVersion: DocumentVersion) => void;
+  // Change this to reload the versions, e.g. after an upload
+  refreshKey: number;
+}
+
+export default function VersionPanel({
+  documentId,
+  isExplaining,
+  disabled,
+  onShowDiff,
+  onExplain,
+  refreshKey,
+}: VersionPanelProps) {
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState(documentId);
+  const [linkCandidates, setLinkCandidates] = useState<DocumentSummary[] | null>(null);
+  const [linkTarget, setLinkTarget] = useState("");
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // By default compare the open document with the version before it
+  const applyVersions = useCallback((loaded: DocumentVersion[]) => {
+    setVersions(loaded);
+    const position = loaded.findIndex(version => version.documentId === documentId);
+    setToId(documentId);
+    setFromId(loaded[position > 0 ? position - 1 : position + 1]?.documentId || "");
+  }, [documentId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    authFetch(`/api/documents/${encodeURIComponent(documentId)}/versions`)
+      .then(res => res.json())
+      .then(result => {
+        if (cancelled) return;
+        if (!result.success) throw new Error(result.error || "Failed to load versions");
+        applyVersions(result.versions);
+        setError(null);
+      })
+      .catch(loadError => {
+        if (cancelled) return;
+        console.error("Failed to load versions:", loadError);
+        setError(loadError instanceof Error ? loadError.message : "Failed to load versions");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, refreshKey, applyVersions]);
+
+  const updateLink = async (method: "POST" | "DELETE", previousDocumentId?: string) => {
+    try {
+      const response = await authFetch(`/api/documents/${encodeURIComponent(documentId)}/versions`, {
+        method,
+        ...(previousDocumentId && {
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ previousDocumentId }),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to update versions");
+      }
+      applyVersions(result.versions);
+      setLinkCandidates(null);
+      setError(null);
+    } catch (linkError) {
+      setError(linkError instanceof Error ? linkError.message : "Failed to update versions");
+    }
+  };
+
+  const startLinking = async () => {
+    try {
+      const response = await authFetch("/api/getDocuments?sort=name&pageSize=100");
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || "Failed to load documents");
+      const others = (result.documents as DocumentSummary[]).filter(
+        document => !versions.some(version => version.documentId === document.documentId)
+      );
+      setLinkCandidates(others);
+      setLinkTarget(others[0]?.documentId || "");
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load documents");
+    }
+  };
+
+  const handleCompare = async () => {
+    setIsComparing(true);
+    try {
+      const params = new URLSearchParams({ from: fromId, to: toId });
+      const response = await authFetch(`/api/document-diff?${params}`);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to compare versions");
+      }
+      onShowDiff(result.diff);
+      setError(null);
+    } catch (compareError) {
+      setError(compareError instanceof Error ? compareError.message : "Failed to compare versions");
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const fromVersion = versions.find(version => version.documentId === fromId);
+
+  const versionOptions = versions.map(version => (
+    <option key={version.documentId} value={version.documentId}>
+      v{version.version} · {version.fileName}
+    </option>
+  ));
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mt-6 text-sm">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center">
+        <History className="w-6 h-6 mr-2 text-blue-600" />
+        Versions
+      </h2>
+
+      <ol className="space-y-1 mb-3">
+        {versions.map(version => (
+          <li
+            key={version.documentId}
+            className={`flex justify-between ${version.documentId === documentId ? "font-medium text-gray-800" : "text-gray-600"}`}
+          >
+            <span className="truncate">v{version.version} · {version.fileName}</span>
+            <span className="ml-2 flex-shrink-0 text-gray-400">
+              {version.uploadDate && new Date(version.uploadDate).toLocaleDateString()}
+            </span>
+          </li>
+        ))}
+      </ol>
+
+      {versions.length > 1 && (
+        <div className="space-y-2 mb-3">
+          <div className="flex items-center space-x-2">
+            <select
+              value={fromId}
+              onChange={event => setFromId(event.target.value)}
+              aria-label="Compare from"
+              className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1"
+            >
+              {versionOptions}
+            </select>
+            <span className="text-gray-500">to</span>
+            <select
+              value={toId}
+              onChange={event => setToId(event.target.value)}
+              aria-label="Compare to"
+              className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1"
+            >
+              {versionOptions}
+            </select>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={handleCompare}
+              disabled={!fromId || fromId === toId || isComparing}
+              className="flex-1 px-3 py-2 border border-blue-200 bg-blue-50 hover:bg-blue-100 rounded-lg flex items-center justify-center disabled:opacity-50"
+            >
+              {isComparing ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <GitCompare className="w-4 h-4 mr-1" />}
+              Show changes
+            </button>
+            <button
+              onClick={() => fromVersion && onExplain(fromVersion)}
+              disabled={!fromVersion || toId !== documentId || fromId === toId || disabled || isExplaining}
+              title={toId !== documentId ? "Explanations cover the changes up to the open document" : undefined}
+              className="flex-1 px-3 py-2 border border-slate-200 bg-slate-50 hover:bg-slate-100 rounded-lg flex items-center justify-center disabled:opacity-50"
+            >
+              {isExplaining && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+              Explain changes
+            </button>
+          </div>
+        </div>
+      )}
+
+      {linkCandidates ? (
+        <div className="flex items-center space-x-2">
+          <select
+            value={linkTarget}
+            onChange={event => setLinkTarget(event.target.value)}
+            aria-label="Earlier version"
+            className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1"
+          >
+            {linkCandidates.map(document => (
+              <option key={document.documentId} value={document.documentId}>{document.fileName}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => updateLink("POST", linkTarget)}
+            disabled={!linkTarget}
+            className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            Link
+          </button>
+          <button
+            onClick={() => setLinkCandidates(null)}
+            className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div className="flex justify-between">
+          <button
+            onClick={startLinking}
+            className="px-2 py-1 text-blue-600 hover:bg-blue-50 rounded flex items-center"
+          >
+            <Link2 className="w-4 h-4 mr-1" />
+            Mark as a newer version of…
+          </button>
+          {versions.length > 1 && (
+            <button
+              onClick={() => updateLink("DELETE")}
+              className="px-2 py-1 text-gray-500 hover:bg-gray-50 rounded flex items-center"
+            >
+              <Unlink className="w-4 h-4 mr-1" />
+              Unlink
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-red-600">{error}</p>}
+    </div>
+  );
+}
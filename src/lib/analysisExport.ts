@@ -0,0 +1,374 @@
+// src/lib/analysisExport.ts
+
+// Export of analysis results as Markdown, a PDF report, DOCX or JSON, in the
+// browser. The PDF and DOCX writers are loaded on demand.
+
+import type { AnalysisCoverage } from "./documentAnalysis";
+import type { EntityExtraction } from "./entityExtraction";
+import type { PlaybookComparison } from "./playbookComparison";
+import type { RiskItem } from "./riskAssessment";
+
+export const LEGAL_DISCLAIMER =
+  "This tool provides general information and should not replace professional legal advice. Always consult with a qualified attorney for specific legal matters.";
+
+export interface ExportableAnalysis {
+  fileName: string;
+  analysisType: string;
+  // Display name of the analysis type, e.g. "Risk Assessment"
+  title: string;
+  content: string;
+  timestamp: Date;
+  model?: string;
+  coverage?: AnalysisCoverage;
+  risks?: RiskItem[];
+  entities?: EntityExtraction;
+  comparison?: PlaybookComparison;
+}
+
+export type ExportFormat = "markdown" | "pdf" | "docx" | "json";
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: "markdown", label: "Markdown", extension: "md", mimeType: "text/markdown;charset=utf-8" },
+  { format: "pdf", label: "PDF report", extension: "pdf", mimeType: "application/pdf" },
+  {
+    format: "docx",
+    label: "Word (DOCX)",
+    extension: "docx",
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  },
+  { format: "json", label: "JSON", extension: "json", mimeType: "application/json" },
+];
+
+function formatInfo(format: ExportFormat) {
+  return EXPORT_FORMATS.find(entry => entry.format === format) as (typeof EXPORT_FORMATS)[number];
+}
+
+const REPORT_TITLE = "Legal Document Analysis";
+
+interface TextBlock {
+  kind: "heading" | "bullet" | "paragraph";
+  text: string;
+}
+
+// Metadata lines shown above each analysis in every format
+function describe(analysis: ExportableAnalysis): [string, string][] {
+  return [
+    ["Document", analysis.fileName],
+    ["Analysis type", analysis.title],
+    ["Generated", analysis.timestamp.toLocaleString()],
+    ["Model", analysis.model || "Unknown"],
+    ...(analysis.coverage
+      ? [["Coverage", `${analysis.coverage.chunksAnalyzed} of ${analysis.coverage.totalChunks} chunks`] as [string, string]]
+      : []),
+  ];
+}
+
+// Break analysis text into headings, bullets and paragraphs, dropping inline
+// Markdown markers the PDF and DOCX writers do not render
+function toBlocks(content: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.trim().replace(/^>\s*/, "");
+    if (!line || /^([-*_])\1{2,}$/.test(line)) continue;
+
+    const text = (value: string) => value.replace(/\*\*|__|`/g, "").trim();
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    const bullet = line.match(/^[-*•]\s+(.*)$/);
+
+    if (heading) {
+      blocks.push({ kind: "heading", text: text(heading[1]) });
+    } else if (bullet) {
+      blocks.push({ kind: "bullet", text: text(bullet[1]) });
+    } else {
+      blocks.push({ kind: "paragraph", text: text(line) });
+    }
+  }
+  return blocks;
+}
+
+function reportHeading(analyses: ExportableAnalysis[]): string {
+  const names = Array.from(new Set(analyses.map(analysis => analysis.fileName)));
+  return `${REPORT_TITLE}: ${names.join(", ")}`;
+}
+
+function toMarkdown(analyses: ExportableAnalysis[]): string {
+  const sections = analyses.map(analysis => [
+    `## ${analysis.title}`,
+    "",
+    ...describe(analysis).map(([label, value]) => `- **${label}:** ${value}`),
+    "",
+    // Shift the analysis' own headings below its "##" title
+    analysis.content.trim().replace(/^(#{1,5}) /gm, "#$1 "),
+  ].join("\n"));
+
+  return [`# ${reportHeading(analyses)}`, "", sections.join("\n\n---\n\n"), "", "---", "", `_${LEGAL_DISCLAIMER}_`, ""].join("\n");
+}
+
+function toJson(analyses: ExportableAnalysis[]): string {
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    disclaimer: LEGAL_DISCLAIMER,
+    analyses: analyses.map(analysis => ({
+      fileName: analysis.fileName,
+      analysisType: analysis.analysisType,
+      title: analysis.title,
+      timestamp: analysis.timestamp.toISOString(),
+      model: analysis.model ?? null,
+      ...(analysis.coverage && { coverage: analysis.coverage }),
+      content: analysis.content,
+      ...(analysis.risks && { risks: analysis.risks }),
+      ...(analysis.entities && { entities: analysis.entities }),
+      ...(analysis.comparison && { comparison: analysis.comparison }),
+    })),
+  }, null, 2);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function docxRun(text: string, properties = ""): string {
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ""}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function docxParagraph(runs: string, style?: string, extra = ""): string {
+  const properties = `${style ? `<w:pStyle w:val="${style}"/>` : ""}${extra}`;
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ""}${runs}</w:p>`;
+}
+
+const WORD_NAMESPACE = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${WORD_NAMESPACE}>
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="30"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="24"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Footer"><w:name w:val="footer"/><w:basedOn w:val="Normal"/><w:rPr><w:i/><w:color w:val="666666"/><w:sz w:val="16"/></w:rPr></w:style>
+</w:styles>`;
+
+async function toDocx(analyses: ExportableAnalysis[]): Promise<Blob> {
+  const { default: JSZip } = await import("jszip");
+
+  const body: string[] = [docxParagraph(docxRun(reportHeading(analyses)), "Title")];
+  for (const analysis of analyses) {
+    body.push(docxParagraph(docxRun(analysis.title), "Heading1"));
+    for (const [label, value] of describe(analysis)) {
+      body.push(docxParagraph(docxRun(`${label}: `, "<w:b/>") + docxRun(value), undefined, '<w:spacing w:after="0"/>'));
+    }
+    body.push(docxParagraph(""));
+
+    for (const block of toBlocks(analysis.content)) {
+      if (block.kind === "heading") {
+        body.push(docxParagraph(docxRun(block.text), "Heading2"));
+      } else if (block.kind === "bullet") {
+        body.push(docxParagraph(`${docxRun("•")}<w:r><w:tab/></w:r>${docxRun(block.text)}`, undefined, '<w:ind w:left="360" w:hanging="360"/>'));
+      } else {
+        body.push(docxParagraph(docxRun(block.text)));
+      }
+    }
+  }
+
+  const zip = new JSZip();
+  zip.file("[Content_Types].xml", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>
+</Types>`);
+  zip.file("_rels/.rels", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`);
+  zip.file("word/_rels/document.xml.rels", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>
+</Relationships>`);
+  zip.file("word/styles.xml", DOCX_STYLES);
+  // The disclaimer goes in the page footer so it appears on every page
+  zip.file("word/footer1.xml", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:ftr ${WORD_NAMESPACE}>${docxParagraph(docxRun(LEGAL_DISCLAIMER), "Footer")}</w:ftr>`);
+  zip.file("word/document.xml", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${WORD_NAMESPACE} xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<w:body>${body.join("")}<w:sectPr><w:footerReference w:type="default" r:id="rId2"/><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="567" w:footer="567" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`);
+
+  return zip.generateAsync({ type: "blob", mimeType: formatInfo("docx").mimeType, compression: "DEFLATE" });
+}
+
+// Characters of Windows-1252 (WinAnsi) beyond Latin-1, the only ones the
+// standard PDF fonts can draw besides Latin-1 itself
+const WIN_ANSI_EXTRAS = new Set(Array.from("€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ"));
+
+function isWinAnsi(character: string): boolean {
+  const code = character.codePointAt(0) as number;
+  return (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.has(character);
+}
+
+export const PDF_UNSUPPORTED_MESSAGE =
+  "The PDF report can only show Western European text. Export as DOCX or Markdown for analyses in other scripts.";
+
+// Whether the analyses can be written to a PDF report. Stray symbols are
+// replaced, but letters of other scripts (Hindi, Arabic, Chinese and so on)
+// would leave the report unreadable, so those analyses are not offered as PDF
+export function canExportAsPdf(analyses: ExportableAnalysis[]): boolean {
+  const texts = [reportHeading(analyses), ...analyses.flatMap(analysis => [
+    analysis.title,
+    analysis.content,
+    ...describe(analysis).map(([, value]) => value),
+  ])];
+  return texts.every(text => Array.from(text.matchAll(/\p{L}/gu)).every(([letter]) => isWinAnsi(letter)));
+}
+
+// A4 page in PDF points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const FOOTER_HEIGHT = 48;
+
+async function toPdf(analyses: ExportableAnalysis[]): Promise<Blob> {
+  if (!canExportAsPdf(analyses)) throw new Error(PDF_UNSUPPORTED_MESSAGE);
+
+  const { PDFDocument, StandardFonts, rgb } = await import("pdf-lib");
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(reportHeading(analyses));
+  pdf.setCreator(REPORT_TITLE);
+
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const italic = await pdf.embedFont(StandardFonts.HelveticaOblique);
+  type Font = typeof regular;
+
+  // The standard PDF fonts only cover Western European text; other symbols
+  // are replaced, and the report says so
+  const supported = new Set(regular.getCharacterSet());
+  let replacedCharacters = false;
+  const printable = (text: string) => Array.from(text.replace(/\t/g, " ")).map(character => {
+    if (supported.has(character.codePointAt(0) as number)) return character;
+    replacedCharacters = true;
+    return "?";
+  }).join("");
+
+  const wrap = (text: string, font: Font, size: number, width: number): string[] => {
+    const lines: string[] = [];
+    let line = "";
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // Break words wider than the whole line
+      line = "";
+      for (const character of word) {
+        if (font.widthOfTextAtSize(line + character, size) > width && line) {
+          lines.push(line);
+          line = "";
+        }
+        line += character;
+      }
+    }
+    if (line) lines.push(line);
+    return lines;
+  };
+
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+
+  const write = (text: string, options: { font?: Font; size?: number; indent?: number; spaceBefore?: number; spaceAfter?: number; color?: number } = {}) => {
+    const { font = regular, size = 10.5, indent = 0, spaceBefore = 0, spaceAfter = 4, color = 0.1 } = options;
+    const lineHeight = size * 1.35;
+    y -= spaceBefore;
+    for (const line of wrap(printable(text), font, size, contentWidth - indent)) {
+      if (y - lineHeight < MARGIN + FOOTER_HEIGHT) {
+        page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= lineHeight;
+      page.drawText(line, { x: MARGIN + indent, y, size, font, color: rgb(color, color, color) });
+    }
+    y -= spaceAfter;
+  };
+
+  write(reportHeading(analyses), { font: bold, size: 18, spaceAfter: 12 });
+  for (const analysis of analyses) {
+    write(analysis.title, { font: bold, size: 14, spaceBefore: 10, spaceAfter: 6 });
+    for (const [label, value] of describe(analysis)) {
+      write(`${label}: ${value}`, { size: 9, spaceAfter: 1, color: 0.35 });
+    }
+    y -= 8;
+
+    for (const block of toBlocks(analysis.content)) {
+      if (block.kind === "heading") {
+        write(block.text, { font: bold, size: 12, spaceBefore: 6 });
+      } else if (block.kind === "bullet") {
+        write(`- ${block.text}`, { indent: 12 });
+      } else {
+        write(block.text);
+      }
+    }
+  }
+
+  if (replacedCharacters) {
+    write("Some characters could not be shown in this PDF and appear as \"?\". Export as DOCX or Markdown for the full text.", {
+      font: italic, size: 9, spaceBefore: 12, color: 0.35,
+    });
+  }
+
+  // Disclaimer and page numbers at the foot of every page
+  const pages = pdf.getPages();
+  pages.forEach((current, index) => {
+    let footerY = MARGIN + FOOTER_HEIGHT - 12;
+    for (const line of wrap(LEGAL_DISCLAIMER, italic, 8, contentWidth)) {
+      current.drawText(line, { x: MARGIN, y: footerY, size: 8, font: italic, color: rgb(0.4, 0.4, 0.4) });
+      footerY -= 10;
+    }
+    const label = `Page ${index + 1} of ${pages.length}`;
+    current.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(label, 8),
+      y: MARGIN - 16,
+      size: 8,
+      font: regular,
+      color: rgb(0.4, 0.4, 0.4),
+    });
+  });
+
+  const bytes = await pdf.save();
+  return new Blob([bytes as Uint8Array<ArrayBuffer>], { type: formatInfo("pdf").mimeType });
+}
+
+// Render the analyses in the given format
+export async function exportAnalyses(analyses: ExportableAnalysis[], format: ExportFormat): Promise<Blob> {
+  switch (format) {
+    case "markdown":
+      return new Blob([toMarkdown(analyses)], { type: formatInfo("markdown").mimeType });
+    case "json":
+      return new Blob([toJson(analyses)], { type: formatInfo("json").mimeType });
+    case "docx":
+      return toDocx(analyses);
+    case "pdf":
+      return toPdf(analyses);
+  }
+}
+
+// File name for an export: "<document>-<analysis type>-<date>" for a single
+// analysis, "<document>-analyses-<date>" for several
+export function exportFileName(analyses: ExportableAnalysis[], format: ExportFormat): string {
+  const { extension } = formatInfo(format);
+  const names = Array.from(new Set(analyses.map(analysis => analysis.fileName.replace(/\.[^.]+$/, ""))));
+  const base = names.length === 1 ? names[0] : "documents";
+  const kind = analyses.length === 1 ? analyses[0].analysisType : "analyses";
+  const date = (analyses[analyses.length - 1]?.timestamp || new Date()).toISOString().slice(0, 10);
+  return `${base}-${kind}-${date}.${extension}`.replace(/[\\/:*?"<>|\s]+/g, "_");
+}
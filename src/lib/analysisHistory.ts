@@ -0,0 +1,81 @@
+// src/lib/analysisHistory.ts
+
+import { randomUUID } from "crypto";
+import { readJson, removeJson, toStorageKey, withFileLock, writeJson } from "./storage";
+import type { AnalysisCoverage } from "./documentAnalysis";
+import type { EntityExtraction } from "./entityExtraction";
+import type { PlaybookComparison } from "./playbookComparison";
+import type { RiskItem } from "./riskAssessment";
+
+// What a cached analysis is looked up by. The document id is a hash of the
+// file's bytes, so a changed document never matches an old result.
+export interface AnalysisKey {
+  analysisType: string;
+  // Version of the template the analysis was generated from, e.g. "v2", plus
+  // the playbook for comparisons, e.g. "v1:<playbook id>"
+  promptVersion: string;
+  outputLanguage: string;
+}
+
+export interface StoredAnalysis extends AnalysisKey {
+  id: string;
+  documentId: string;
+  fileName: string;
+  content: string;
+  createdAt: string;
+  model: string;
+  provider?: string;
+  coverage?: AnalysisCoverage;
+  schemaVersion?: string;
+  risks?: RiskItem[];
+  entities?: EntityExtraction;
+  comparison?: PlaybookComparison;
+  // The earlier version an explanation of changes was generated against
+  comparedWith?: { documentId: string; fileName: string };
+}
+
+export type NewAnalysis = Omit<StoredAnalysis, "id" | "createdAt">;
+
+// Older results beyond this are dropped, oldest first
+const MAX_STORED_ANALYSES = 50;
+
+// Analyses are stored per user, then per document
+function historyPath(ownerId: string, documentId: string): string {
+  return `analyses/${toStorageKey(ownerId)}/${toStorageKey(documentId)}.json`;
+}
+
+// Every stored analysis of a document, oldest first
+export async function getAnalysisHistory(ownerId: string, documentId: string): Promise<StoredAnalysis[]> {
+  return readJson<StoredAnalysis[]>(historyPath(ownerId, documentId), []);
+}
+
+// The most recent analysis matching the key, if any
+export async function findCachedAnalysis(ownerId: string, documentId: string, key: AnalysisKey): Promise<StoredAnalysis | null> {
+  const history = await getAnalysisHistory(ownerId, documentId);
+  for (let index = history.length - 1; index >= 0; index--) {
+    const entry = history[index];
+    if (
+      entry.analysisType === key.analysisType &&
+      entry.promptVersion === key.promptVersion &&
+      entry.outputLanguage === key.outputLanguage
+    ) {
+      return entry;
+    }
+  }
+  return null;
+}
+
+export async function saveAnalysis(ownerId: string, analysis: NewAnalysis): Promise<StoredAnalysis> {
+  const stored: StoredAnalysis = { ...analysis, id: randomUUID(), createdAt: new Date().toISOString() };
+  const path = historyPath(ownerId, analysis.documentId);
+  await withFileLock(path, async () => {
+    const history = [...(await getAnalysisHistory(ownerId, analysis.documentId)), stored].slice(-MAX_STORED_ANALYSES);
+    await writeJson(path, history);
+  });
+  return stored;
+}
+
+export async function clearAnalysisHistory(ownerId: string, documentId: string): Promise<void> {
+  const path = historyPath(ownerId, documentId);
+  await withFileLock(path, () => removeJson(path));
+}
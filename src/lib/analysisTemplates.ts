@@ -0,0 +1,228 @@
+// src/lib/analysisTemplates.ts
+
+// Analysis templates: the prompt behind each analysis and how it is presented.
+// The built-in templates live here; templates added by users are kept by
+// lib/templateRegistry.
+
+import { riskPrompt } from "./riskAssessment";
+import { entityPrompt } from "./entityExtraction";
+import { playbookComparisonPrompt } from "./playbookComparison";
+
+export const TEMPLATE_ICONS = [
+  "file-text",
+  "brain",
+  "alert-triangle",
+  "calendar-days",
+  "search",
+  "eye",
+  "shield",
+  "scale",
+  "clipboard-check",
+  "gavel",
+  "book-open",
+  "lock",
+] as const;
+
+export type TemplateIconName = (typeof TEMPLATE_ICONS)[number];
+
+// How the model's answer is produced and shown. Structured formats are JSON
+// with their own parsers. Reserved formats need inputs only the built-in
+// templates supply (a schema, a playbook, an earlier version), so users
+// cannot pick them for their own templates.
+export const OUTPUT_FORMATS = [
+  { value: "markdown", label: "Formatted text (Markdown)", structured: false, reserved: false },
+  { value: "plain-text", label: "Plain text", structured: false, reserved: false },
+  { value: "risk-table", label: "Risk table", structured: true, reserved: true },
+  { value: "entity-records", label: "Parties, dates and amounts", structured: true, reserved: true },
+  { value: "playbook-comparison", label: "Playbook comparison", structured: true, reserved: true },
+  { value: "change-explanation", label: "Explanation of changes between versions", structured: false, reserved: true },
+] as const;
+
+export type TemplateOutputFormat = (typeof OUTPUT_FORMATS)[number]["value"];
+
+export interface AnalysisTemplate {
+  // Also the analysisType sent to the analyze route
+  id: string;
+  name: string;
+  icon: TemplateIconName;
+  description: string;
+  prompt: string;
+  outputFormat: TemplateOutputFormat;
+  // Raised on every change; stored results of older versions are not reused
+  version: number;
+  builtIn: boolean;
+  createdBy?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// The fields a user supplies when creating or editing a template
+export type TemplateInput = Pick<AnalysisTemplate, "name" | "icon" | "description" | "prompt" | "outputFormat">;
+
+// Bump a built-in template's version when changing its prompt
+export const BUILT_IN_TEMPLATES: AnalysisTemplate[] = [
+  {
+    id: "summarize",
+    name: "Quick Summary",
+    icon: "file-text",
+    description: "Get the key points in simple terms",
+    outputFormat: "markdown",
+    version: 1,
+    builtIn: true,
+    prompt: `You are a legal document analyzer. Provide a clear, concise summary of this legal document in plain English. Focus on:
+- What type of document this is
+- Main parties involved
+- Key obligations and rights
+- Important dates or deadlines
+- Overall purpose and scope
+
+Keep the summary accessible to non-lawyers.`,
+  },
+  {
+    id: "detailed",
+    name: "Detailed Analysis",
+    icon: "brain",
+    description: "Comprehensive breakdown of all sections",
+    outputFormat: "markdown",
+    version: 1,
+    builtIn: true,
+    prompt: `You are a legal expert providing detailed analysis. Analyze this legal document comprehensively, covering:
+- Document structure and sections
+- Legal implications of each major clause
+- Rights and obligations of all parties
+- Potential consequences and enforcement mechanisms
+- Important legal terminology explanations
+- Risk factors and protections
+
+Provide thorough but understandable explanations.`,
+  },
+  {
+    id: "risks",
+    name: "Risk Assessment",
+    icon: "alert-triangle",
+    description: "Identify potential legal and financial risks",
+    outputFormat: "risk-table",
+    version: 1,
+    builtIn: true,
+    prompt: riskPrompt,
+  },
+  {
+    id: "entities",
+    name: "Parties, Dates & Amounts",
+    icon: "calendar-days",
+    description: "Extract parties, deadlines and payments, with a calendar export",
+    outputFormat: "entity-records",
+    version: 1,
+    builtIn: true,
+    prompt: entityPrompt,
+  },
+  {
+    // Run against one of the user's playbooks, chosen in the playbook panel
+    id: "playbook",
+    name: "Playbook Comparison",
+    icon: "scale",
+    description: "Check each clause against your standard positions",
+    outputFormat: "playbook-comparison",
+    version: 1,
+    builtIn: true,
+    prompt: playbookComparisonPrompt,
+  },
+  {
+    // Run from the versions panel against an earlier version of the document
+    id: "changes",
+    name: "Explain Changes",
+    icon: "gavel",
+    description: "What each material change since an earlier version means for you",
+    outputFormat: "change-explanation",
+    version: 1,
+    builtIn: true,
+    prompt: `You are a legal advisor reviewing a new draft of an agreement during a negotiation. The excerpts below are the clauses that were added, removed or changed since the earlier version, with the earlier and the new wording. For each material change:
+- Say what changed, citing the clause
+- Explain what it means in practice for the reader: obligations or costs added, rights or protections gained or lost
+- Say whether the change favours the reader or the other side, and what to push back on
+
+List purely editorial changes (renumbering, typos, formatting) briefly at the end.`,
+  },
+  {
+    id: "key-terms",
+    name: "Key Terms & Clauses",
+    icon: "search",
+    description: "Important terms explained clearly",
+    outputFormat: "markdown",
+    version: 1,
+    builtIn: true,
+    prompt: `You are a legal document interpreter. Extract and explain the most important terms and clauses:
+- Define complex legal terminology
+- Explain key obligations and rights
+- Highlight critical deadlines and conditions
+- Identify penalty or consequence clauses
+- Point out any unusual or non-standard terms
+
+Make technical language accessible to general audiences.`,
+  },
+  {
+    id: "plain-english",
+    name: "Plain English Translation",
+    icon: "eye",
+    description: "Convert legal jargon to everyday language",
+    outputFormat: "markdown",
+    version: 1,
+    builtIn: true,
+    prompt: `You are a legal translator. Convert the complex legal language in this document into plain English:
+- Replace legal jargon with everyday language
+- Simplify complex sentence structures
+- Explain what each section actually means in practice
+- Use analogies or examples where helpful
+- Maintain the essential legal meaning while making it understandable
+
+Focus on clarity and accessibility.`,
+  },
+];
+
+export const TEMPLATE_LIMITS = {
+  name: 80,
+  description: 200,
+  promptMin: 20,
+  prompt: 8000,
+};
+
+// Check user-supplied template fields, returning the cleaned input or the problems found
+export function validateTemplateInput(value: unknown): { input?: TemplateInput; errors: string[] } {
+  const candidate = (typeof value === "object" && value !== null ? value : {}) as Record<string, unknown>;
+  const text = (field: string) => (typeof candidate[field] === "string" ? (candidate[field] as string).trim() : "");
+  const errors: string[] = [];
+
+  const name = text("name");
+  const description = text("description");
+  const prompt = text("prompt");
+  const icon = text("icon") || "file-text";
+  const outputFormat = text("outputFormat") || "markdown";
+
+  if (!name) errors.push("Name is required");
+  if (name.length > TEMPLATE_LIMITS.name) errors.push(`Name must be at most ${TEMPLATE_LIMITS.name} characters`);
+  if (description.length > TEMPLATE_LIMITS.description) {
+    errors.push(`Description must be at most ${TEMPLATE_LIMITS.description} characters`);
+  }
+  if (prompt.length < TEMPLATE_LIMITS.promptMin) errors.push(`Prompt must be at least ${TEMPLATE_LIMITS.promptMin} characters`);
+  if (prompt.length > TEMPLATE_LIMITS.prompt) errors.push(`Prompt must be at most ${TEMPLATE_LIMITS.prompt} characters`);
+  if (!(TEMPLATE_ICONS as readonly string[]).includes(icon)) errors.push("Unknown icon");
+
+  const format = OUTPUT_FORMATS.find(entry => entry.value === outputFormat);
+  if (!format) {
+    errors.push("Unknown output format");
+  } else if (format.reserved) {
+    errors.push(`The "${format.label}" output format is reserved for built-in templates`);
+  }
+
+  if (errors.length > 0) return { errors };
+  return {
+    input: {
+      name,
+      description,
+      prompt,
+      icon: icon as TemplateIconName,
+      outputFormat: outputFormat as TemplateOutputFormat,
+    },
+    errors,
+  };
+}
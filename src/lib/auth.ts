@@ -0,0 +1,49 @@
+// src/lib/auth.ts
+
+import { App, getApps, initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { NextResponse } from "next/server";
+
+// Server-side verification of Firebase ID tokens. Only the project id is needed;
+// when FIREBASE_AUTH_EMULATOR_HOST is set, tokens issued by the emulator are accepted.
+
+export interface AuthUser {
+  uid: string;
+  email?: string;
+}
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+function getAdminApp(): App {
+  return getApps()[0] || initializeApp({
+    projectId: process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+  });
+}
+
+// Verify the bearer token on a request and return the signed-in user
+export async function authenticate(request: Request): Promise<AuthUser> {
+  const match = (request.headers.get("authorization") || "").match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    throw new AuthError("Sign in to continue");
+  }
+
+  try {
+    const token = await getAuth(getAdminApp()).verifyIdToken(match[1]);
+    return { uid: token.uid, email: token.email };
+  } catch (error) {
+    console.error("ID token verification failed:", error);
+    throw new AuthError("Your sign-in is invalid or has expired. Please sign in again.");
+  }
+}
+
+export function authErrorResponse(error: AuthError) {
+  return NextResponse.json(
+    { success: false, error: error.message },
+    { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+  );
+}
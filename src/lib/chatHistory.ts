@@ -0,0 +1,44 @@
+// src/lib/chatHistory.ts
+
+import { readJson, removeJson, toStorageKey, withFileLock, writeJson } from "./storage";
+
+export interface ChatCitation {
+  chunkIndex: number;
+  excerpt: string;
+  location?: string;
+}
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+  timestamp: string;
+  citations?: ChatCitation[];
+  model?: string;
+}
+
+// Keep the stored conversation bounded so prompts stay small
+const MAX_STORED_MESSAGES = 100;
+
+// Conversations are stored per user, then per document id, so documents
+// sharing a name never share a conversation
+function historyPath(ownerId: string, documentId: string): string {
+  return `chats/${toStorageKey(ownerId)}/${toStorageKey(documentId)}.json`;
+}
+
+export async function getChatHistory(ownerId: string, documentId: string): Promise<ChatMessage[]> {
+  return readJson<ChatMessage[]>(historyPath(ownerId, documentId), []);
+}
+
+export async function appendChatMessages(ownerId: string, documentId: string, messages: ChatMessage[]): Promise<ChatMessage[]> {
+  const path = historyPath(ownerId, documentId);
+  return withFileLock(path, async () => {
+    const history = [...(await getChatHistory(ownerId, documentId)), ...messages].slice(-MAX_STORED_MESSAGES);
+    await writeJson(path, history);
+    return history;
+  });
+}
+
+export async function clearChatHistory(ownerId: string, documentId: string): Promise<void> {
+  const path = historyPath(ownerId, documentId);
+  await withFileLock(path, () => removeJson(path));
+}
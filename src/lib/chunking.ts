@@ -0,0 +1,254 @@
+// src/lib/chunking.ts
+
+import { BLOCK_SEPARATOR, DocumentBlock, ExtractedDocument } from "./extraction";
+import { createPathTracker, followLine } from "./legalStructure";
+import { isSentenceEnd } from "./sentences";
+
+// Location fields stored alongside each chunk in the vector metadata
+export interface ChunkLocation {
+  pageStart?: number;
+  pageEnd?: number;
+  // Heading trail or provision path, e.g. "Article 5 > 5.2(b)"
+  section?: string;
+  clauses?: string[];
+}
+
+export interface DocumentChunk extends ChunkLocation {
+  content: string;
+}
+
+interface TextSpan {
+  start: number;
+  end: number;
+}
+
+// A run of text belonging to one provision, with its path from the document structure
+interface StructuredUnit extends TextSpan {
+  path: string[];
+}
+
+// Fewer headings than this and the document is treated as unstructured
+const MIN_STRUCTURE_HEADINGS = 3;
+
+// Position of the last sentence ending in (after, before], or -1
+function lastSentenceEnd(text: string, before: number, after: number): number {
+  for (let index = Math.min(before, text.length - 1); index > after; index--) {
+    if (isSentenceEnd(text, index)) return index;
+  }
+  return -1;
+}
+
+// Split text into overlapping spans, preferring sentence or word boundaries.
+// Span positions are shifted by `offset` so callers can split part of a larger text.
+function splitTextIntoSpans(text: string, chunkSize: number, overlap: number, offset: number = 0): TextSpan[] {
+  const spans: TextSpan[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = start + chunkSize;
+
+    // If we're not at the end of the text, try to break at a sentence or word boundary
+    if (end < text.length) {
+      const lastSentence = lastSentenceEnd(text, end, start + chunkSize / 2);
+      const lastSpace = text.lastIndexOf(' ', end);
+
+      if (lastSentence > start + chunkSize / 2) {
+        end = lastSentence + 1;
+      } else if (lastSpace > start + chunkSize / 2) {
+        end = lastSpace;
+      }
+    } else {
+      end = text.length;
+    }
+
+    spans.push({ start: start + offset, end: end + offset });
+    if (end >= text.length) break;
+    start = end - overlap;
+  }
+
+  return spans;
+}
+
+// Text splitter function
+export function splitTextIntoChunks(text: string, chunkSize: number = 1000, overlap: number = 200): string[] {
+  return splitTextIntoSpans(text, chunkSize, overlap)
+    .map(span => text.slice(span.start, span.end).trim())
+    .filter(chunk => chunk.length > 0);
+}
+
+// Break the document text into provisions, one per recognised heading.
+// Returns null when too few headings are found to call the text structured.
+function findStructuredUnits(text: string): StructuredUnit[] | null {
+  const tracker = createPathTracker();
+  const units: StructuredUnit[] = [];
+  let headings = 0;
+  let unitStart = 0;
+  let unitPath: string[] = [];
+  let offset = 0;
+
+  for (const line of text.split("\n")) {
+    if (followLine(tracker, line)) {
+      headings++;
+      if (offset > unitStart) units.push({ start: unitStart, end: offset, path: unitPath });
+      unitStart = offset;
+      unitPath = tracker.path();
+    }
+    offset += line.length + 1;
+  }
+  units.push({ start: unitStart, end: text.length, path: unitPath });
+
+  if (headings < MIN_STRUCTURE_HEADINGS) return null;
+  return units.filter(unit => text.slice(unit.start, unit.end).trim().length > 0);
+}
+
+// The document's provisions in order, each with its path, so versions can be
+// compared clause by clause. Null when the text has no recognisable structure.
+export function splitIntoProvisions(text: string): { path: string[]; text: string }[] | null {
+  const units = findStructuredUnits(text);
+  return units && units.map(unit => ({ path: unit.path, text: text.slice(unit.start, unit.end).trim() }));
+}
+
+function parentPath(path: string[]): string {
+  return path.slice(0, -1).join(" > ");
+}
+
+// Whether two provisions can share a chunk: siblings under the same parent, or a
+// heading followed by its own sub-provisions. Top-level parts and unlabelled
+// text each stay on their own.
+function belongTogether(first: string[], next: string[]): boolean {
+  if (first.length === 0 || next.length === 0) return first.length === next.length;
+  const parent = parentPath(next);
+  return parent === first.join(" > ") || (parent !== "" && parent === parentPath(first));
+}
+
+// Turn provisions into chunk spans. Small neighbouring provisions under the same
+// parent are packed together up to chunkSize; provisions too long for one chunk
+// are split by size, every piece keeping the provision's path.
+function packUnits(text: string, units: StructuredUnit[], chunkSize: number, overlap: number): { span: TextSpan; paths: string[][] }[] {
+  const packed: { span: TextSpan; paths: string[][] }[] = [];
+  let current: { span: TextSpan; paths: string[][] } | null = null;
+
+  for (const unit of units) {
+    if (unit.end - unit.start > chunkSize * 1.5) {
+      if (current) packed.push(current);
+      current = null;
+      for (const span of splitTextIntoSpans(text.slice(unit.start, unit.end), chunkSize, overlap, unit.start)) {
+        packed.push({ span, paths: [unit.path] });
+      }
+      continue;
+    }
+
+    if (
+      current &&
+      unit.end - current.span.start <= chunkSize &&
+      belongTogether(current.paths[0], unit.path)
+    ) {
+      current.span.end = unit.end;
+      current.paths.push(unit.path);
+      continue;
+    }
+
+    if (current) packed.push(current);
+    current = { span: { start: unit.start, end: unit.end }, paths: [unit.path] };
+  }
+  if (current) packed.push(current);
+
+  return packed;
+}
+
+// Section and clause labels for a chunk covering one or more provisions: the
+// full path for a single provision, otherwise the shared path plus the labels
+// of the provisions below it
+function describePaths(paths: string[][]): ChunkLocation {
+  const labelled = paths.filter(path => path.length > 0);
+  if (labelled.length === 0) return {};
+  if (labelled.length === 1) {
+    return { section: labelled[0].join(" > "), clauses: [labelled[0][labelled[0].length - 1]] };
+  }
+
+  let shared = labelled[0].length;
+  for (const path of labelled) {
+    shared = Math.min(shared, path.length);
+    while (shared > 0 && path.slice(0, shared).join(" > ") !== labelled[0].slice(0, shared).join(" > ")) shared--;
+  }
+
+  const clauses = Array.from(new Set(
+    labelled.filter(path => path.length > shared).map(path => path[path.length - 1])
+  ));
+  return {
+    ...(shared > 0 && { section: labelled[0].slice(0, shared).join(" > ") }),
+    ...(clauses.length > 0 && { clauses }),
+  };
+}
+
+// Split an extracted document into chunks that remember which pages and sections
+// they span. Documents with recognisable legal structure are split along their
+// provisions; anything else falls back to size-based splitting.
+export function chunkDocument(document: ExtractedDocument, chunkSize: number = 1000, overlap: number = 200): DocumentChunk[] {
+  // Work out where each block sits inside the joined document text
+  const blockOffsets: { start: number; end: number; block: DocumentBlock }[] = [];
+  let offset = 0;
+  for (const block of document.blocks) {
+    blockOffsets.push({ start: offset, end: offset + block.text.length, block });
+    offset += block.text.length + BLOCK_SEPARATOR.length;
+  }
+
+  // Location taken from the blocks a span overlaps: pages, and any section or
+  // clause numbers the extractor found (e.g. Word heading styles)
+  const locate = (span: TextSpan): ChunkLocation => {
+    const blocks = blockOffsets
+      .filter(entry => entry.start < span.end && entry.end > span.start)
+      .map(entry => entry.block);
+    const pages = blocks
+      .filter(block => block.page !== undefined)
+      .map(block => block.page as number);
+    const clauses = Array.from(new Set(
+      blocks.filter(block => block.clause).map(block => block.clause as string)
+    ));
+    const section = blocks.find(block => block.section)?.section;
+
+    return {
+      ...(pages.length > 0 && {
+        pageStart: Math.min(...pages),
+        pageEnd: Math.max(...pages),
+      }),
+      ...(section && { section }),
+      ...(clauses.length > 0 && { clauses }),
+    };
+  };
+
+  const units = findStructuredUnits(document.text);
+  const pieces = units
+    ? packUnits(document.text, units, chunkSize, overlap)
+        .map(({ span, paths }) => ({ span, location: { ...locate(span), ...describePaths(paths) } }))
+    : splitTextIntoSpans(document.text, chunkSize, overlap)
+        .map(span => ({ span, location: locate(span) }));
+
+  const chunks: DocumentChunk[] = [];
+  for (const { span, location } of pieces) {
+    const content = document.text.slice(span.start, span.end).trim();
+    if (!content) continue;
+    chunks.push({ content, ...location });
+  }
+
+  return chunks;
+}
+
+// Human-readable location label used when chunks are handed to the model
+export function describeChunkLocation(location: ChunkLocation): string {
+  const parts: string[] = [];
+
+  if (location.section) {
+    parts.push(`Section: ${location.section}`);
+  }
+  if (location.clauses && location.clauses.length > 0) {
+    parts.push(`Clauses: ${location.clauses.join(", ")}`);
+  }
+  if (location.pageStart !== undefined) {
+    parts.push(location.pageEnd !== undefined && location.pageEnd !== location.pageStart
+      ? `Pages ${location.pageStart}-${location.pageEnd}`
+      : `Page ${location.pageStart}`);
+  }
+
+  return parts.join(" | ");
+}
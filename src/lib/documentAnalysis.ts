@@ -0,0 +1,141 @@
+// src/lib/documentAnalysis.ts
+
+import { describeChunkLocation } from "./chunking";
+import type { OrderedChunk } from "./documents";
+import { generateText } from "./llm";
+import { mapWithConcurrency } from "./concurrency";
+
+// Characters of document text or notes sent to the model in a single request,
+// and how many of those requests may run at once
+export const ANALYSIS_CONTEXT_CHARS = Number(process.env.ANALYSIS_CONTEXT_CHARS) || 30000;
+export const ANALYSIS_CONCURRENCY = Number(process.env.ANALYSIS_CONCURRENCY) || 3;
+
+const NOTE_OPTIONS = { maxOutputTokens: 1500, temperature: 0.1 };
+
+export interface AnalysisCoverage {
+  // Chunks whose text reached the model, out of the chunks recorded at ingestion
+  chunksAnalyzed: number;
+  totalChunks: number;
+  // "single-pass" when the whole document fit in one request
+  strategy: "single-pass" | "map-reduce";
+  // Model calls made before the final analysis
+  intermediateCalls: number;
+}
+
+export interface AnalysisProgress {
+  stage: "map" | "reduce";
+  completed: number;
+  total: number;
+}
+
+export interface PreparedAnalysis {
+  prompt: string;
+  coverage: AnalysisCoverage;
+}
+
+// Chunk text labelled with its index and location, as the model sees it
+export function formatChunk(chunk: OrderedChunk): string {
+  const location = describeChunkLocation(chunk);
+  return `[Chunk ${chunk.chunkIndex}]${location ? ` (${location})` : ""}\n${chunk.content}`;
+}
+
+// Pack items into consecutive groups whose combined text stays under the budget.
+// An item larger than the budget gets a group of its own.
+export function groupByLength<T>(items: T[], textOf: (item: T) => string, budget: number = ANALYSIS_CONTEXT_CHARS): T[][] {
+  const groups: T[][] = [];
+  let current: T[] = [];
+  let length = 0;
+
+  for (const item of items) {
+    const itemLength = textOf(item).length + 2;
+    if (current.length > 0 && length + itemLength > budget) {
+      groups.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(item);
+    length += itemLength;
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups;
+}
+
+function totalLength(texts: string[]): number {
+  return texts.reduce((sum, text) => sum + text.length + 2, 0);
+}
+
+function chunkRange(group: OrderedChunk[]): string {
+  const first = group[0].chunkIndex;
+  const last = group[group.length - 1].chunkIndex;
+  return first === last ? `chunk ${first}` : `chunks ${first}-${last}`;
+}
+
+// Merge neighbouring notes until they fit in one request. Every round at least
+// halves the number of notes, so this always terminates.
+async function reduceNotes(
+  notes: string[],
+  onCall: () => void,
+  onProgress?: (progress: AnalysisProgress) => void
+): Promise<string[]> {
+  while (notes.length > 1 && totalLength(notes) > ANALYSIS_CONTEXT_CHARS) {
+    let groups = groupByLength(notes, note => note, ANALYSIS_CONTEXT_CHARS);
+    if (groups.length === notes.length) {
+      groups = [];
+      for (let i = 0; i < notes.length; i += 2) groups.push(notes.slice(i, i + 2));
+    }
+
+    let completed = 0;
+    notes = await mapWithConcurrency(groups, ANALYSIS_CONCURRENCY, async group => {
+      const result = await generateText(
+        `Combine these notes on consecutive parts of a legal document into one shorter set of notes. Keep every substantive point, keep the points in document order, and keep the [Chunk N] and section labels next to each point.\n\nDocument Content:\n${group.join("\n\n")}`,
+        NOTE_OPTIONS
+      );
+      onCall();
+      onProgress?.({ stage: "reduce", completed: ++completed, total: groups.length });
+      return result.text;
+    });
+  }
+  return notes;
+}
+
+// Build the final prompt for an analysis that covers every chunk of a document.
+// Short documents are sent whole; longer ones are read part by part (map), the
+// notes merged hierarchically if needed (reduce), and the final prompt is built
+// from the notes. LlmUnavailableError from any step propagates to the caller.
+export async function prepareWholeDocumentAnalysis(
+  systemPrompt: string,
+  chunks: OrderedChunk[],
+  totalChunks: number,
+  onProgress?: (progress: AnalysisProgress) => void
+): Promise<PreparedAnalysis> {
+  const excerpts = chunks.map(formatChunk);
+
+  if (totalLength(excerpts) <= ANALYSIS_CONTEXT_CHARS) {
+    return {
+      prompt: `${systemPrompt}\n\nDocument Content:\n${excerpts.join("\n\n")}`,
+      coverage: { chunksAnalyzed: chunks.length, totalChunks, strategy: "single-pass", intermediateCalls: 0 },
+    };
+  }
+
+  const groups = groupByLength(chunks, formatChunk);
+  let intermediateCalls = 0;
+  let completed = 0;
+
+  const partNotes = await mapWithConcurrency(groups, ANALYSIS_CONCURRENCY, async (group, index) => {
+    const result = await generateText(
+      `${systemPrompt}\n\nYou are reading part ${index + 1} of ${groups.length} of a longer document. Write concise notes on this part only, covering everything the task above asks for. Put the [Chunk N] label and section, clause or page of the source next to each point.\n\nDocument Content:\n${group.map(formatChunk).join("\n\n")}`,
+      NOTE_OPTIONS
+    );
+    intermediateCalls++;
+    onProgress?.({ stage: "map", completed: ++completed, total: groups.length });
+    return `[Part ${index + 1} of ${groups.length}, ${chunkRange(group)}]\n${result.text}`;
+  });
+
+  const notes = await reduceNotes(partNotes, () => intermediateCalls++, onProgress);
+
+  return {
+    prompt: `${systemPrompt}\n\nThe document was too long to read at once, so it was read in ${groups.length} parts and notes were taken on each, in document order. Write the analysis of the whole document from these notes.\n\nDocument Content:\n${notes.join("\n\n")}`,
+    coverage: { chunksAnalyzed: chunks.length, totalChunks, strategy: "map-reduce", intermediateCalls },
+  };
+}
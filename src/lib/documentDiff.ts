@@ -0,0 +1,329 @@
+// src/lib/documentDiff.ts
+
+// Clause-by-clause comparison of two versions of a document, built from their
+// stored chunks. Clauses are matched by their wording rather than their numbers,
+// so a renumbered clause is not reported as removed and added again.
+
+import { splitIntoProvisions } from "./chunking";
+import type { OrderedChunk } from "./documents";
+
+export type ClauseChange = "added" | "removed" | "changed" | "unchanged";
+
+// A run of words in a changed clause, for a redline view
+export interface DiffSegment {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+export interface ClauseDiff {
+  change: ClauseChange;
+  // Provision path such as "Article 5 > 5.2", or "Paragraph 4" in unstructured text
+  oldLabel?: string;
+  newLabel?: string;
+  oldText?: string;
+  newText?: string;
+  // Word-level changes, for changed clauses only
+  segments?: DiffSegment[];
+}
+
+export interface DiffSide {
+  documentId: string;
+  fileName: string;
+  // Position in the document's version history, when it has one
+  version?: number;
+}
+
+export interface DocumentDiff {
+  from: DiffSide;
+  to: DiffSide;
+  clauses: ClauseDiff[];
+  counts: Record<ClauseChange, number>;
+}
+
+interface Clause {
+  label: string;
+  text: string;
+  // Wording without the leading number, used for matching
+  key: string;
+  words: Set<string>;
+}
+
+// Clauses sharing fewer words than this are treated as different clauses
+const SIMILARITY_THRESHOLD = 0.5;
+
+// New clauses after the last match that an unmatched old clause is compared with
+const SIMILARITY_WINDOW = 50;
+
+// Larger comparisons are first split at items that occur once on each side
+const MAX_LCS_CELLS = 4_000_000;
+
+// Leading clause number or heading label, e.g. "5.2", "(b)", "Article 5 -", "Section 3."
+const LEADING_LABEL = /^(?:(?:article|section|clause|schedule|annex|annexure|exhibit|appendix|part|chapter)\s+)?(?:[0-9]+(?:\.[0-9]+)*|[IVXLCDM]+|[A-Z])?(?:\([a-z0-9]+\))*[.):]?\s*[-–—]?\s*/i;
+
+// Rebuild the document text from its chunks, dropping the text that
+// neighbouring chunks repeat when a long provision was split with overlap
+export function joinChunks(chunks: OrderedChunk[]): string {
+  let text = "";
+  for (const chunk of chunks) {
+    const content = chunk.content;
+    let overlap = 0;
+    for (let length = Math.min(content.length, text.length, 600); length >= 20; length--) {
+      if (text.endsWith(content.slice(0, length))) {
+        overlap = length;
+        break;
+      }
+    }
+    text = overlap > 0 ? text + content.slice(overlap) : text ? `${text}\n\n${content}` : content;
+  }
+  return text;
+}
+
+function toClause(label: string, text: string): Clause {
+  const key = text.replace(LEADING_LABEL, "").toLowerCase().replace(/[\s"'“”‘’]+/g, " ").trim();
+  return { label, text, key, words: new Set(key.match(/[\p{L}\p{N}]+/gu) || []) };
+}
+
+// Provisions when the text is structured, otherwise paragraphs
+function splitClauses(text: string): Clause[] {
+  const provisions = splitIntoProvisions(text);
+  if (provisions) {
+    return provisions.map(provision =>
+      toClause(provision.path.length > 0 ? provision.path.join(" > ") : "Preamble", provision.text)
+    );
+  }
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph, index) => toClause(`Paragraph ${index + 1}`, paragraph));
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+// Index pairs of a longest common subsequence of two lists of keys, in order.
+// Common leading and trailing items are matched directly, which keeps the
+// table small for versions that differ in a few places. A stretch still too
+// large for the table is split at the items found exactly once on each side,
+// as in a patience diff, and each part between them is compared on its own.
+function longestCommonSubsequence(a: string[], b: string[]): [number, number][] {
+  const pairs: [number, number][] = [];
+  matchRange(a, b, 0, a.length, 0, b.length, pairs);
+  return pairs;
+}
+
+function matchRange(
+  a: string[], b: string[], startA: number, endA: number, startB: number, endB: number, pairs: [number, number][]
+): void {
+  while (startA < endA && startB < endB && a[startA] === b[startB]) pairs.push([startA++, startB++]);
+  let suffix = 0;
+  while (endA - suffix > startA && endB - suffix > startB && a[endA - suffix - 1] === b[endB - suffix - 1]) suffix++;
+  endA -= suffix;
+  endB -= suffix;
+
+  const rows = endA - startA;
+  const columns = endB - startB;
+  if (rows > 0 && columns > 0 && rows * columns <= MAX_LCS_CELLS) {
+    // lengths[i][j]: LCS length of a[startA + i..endA) and b[startB + j..endB)
+    const lengths = new Uint32Array((rows + 1) * (columns + 1));
+    const at = (i: number, j: number) => i * (columns + 1) + j;
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        lengths[at(i, j)] = a[startA + i] === b[startB + j]
+          ? lengths[at(i + 1, j + 1)] + 1
+          : Math.max(lengths[at(i + 1, j)], lengths[at(i, j + 1)]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < columns) {
+      if (a[startA + i] === b[startB + j]) {
+        pairs.push([startA + i, startB + j]);
+        i++;
+        j++;
+      } else if (lengths[at(i + 1, j)] >= lengths[at(i, j + 1)]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+  } else if (rows > 0 && columns > 0) {
+    // Items left unmatched when there is nothing unique to anchor on
+    let fromA = startA;
+    let fromB = startB;
+    for (const [anchorA, anchorB] of uniqueAnchors(a, b, startA, endA, startB, endB)) {
+      matchRange(a, b, fromA, anchorA, fromB, anchorB, pairs);
+      pairs.push([anchorA, anchorB]);
+      fromA = anchorA + 1;
+      fromB = anchorB + 1;
+    }
+    if (fromA > startA) matchRange(a, b, fromA, endA, fromB, endB, pairs);
+  }
+
+  for (let offset = 0; offset < suffix; offset++) pairs.push([endA + offset, endB + offset]);
+}
+
+// Items occurring once in each range, keeping the longest run that is in the
+// same order on both sides
+function uniqueAnchors(
+  a: string[], b: string[], startA: number, endA: number, startB: number, endB: number
+): [number, number][] {
+  const occurrences = new Map<string, { countA: number; indexA: number; countB: number; indexB: number }>();
+  const entry = (key: string) => {
+    let found = occurrences.get(key);
+    if (!found) occurrences.set(key, (found = { countA: 0, indexA: -1, countB: 0, indexB: -1 }));
+    return found;
+  };
+  for (let index = startA; index < endA; index++) {
+    const found = entry(a[index]);
+    found.countA++;
+    found.indexA = index;
+  }
+  for (let index = startB; index < endB; index++) {
+    const found = occurrences.get(b[index]);
+    if (!found) continue;
+    found.countB++;
+    found.indexB = index;
+  }
+  const candidates = Array.from(occurrences.values())
+    .filter(found => found.countA === 1 && found.countB === 1)
+    .sort((x, y) => x.indexA - y.indexA);
+
+  // Longest increasing run of positions in b, by patience sorting
+  const tails: number[] = [];
+  const previous: number[] = [];
+  candidates.forEach((candidate, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (candidates[tails[middle]].indexB < candidate.indexB) low = middle + 1;
+      else high = middle;
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+
+  const anchors: [number, number][] = [];
+  for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index !== -1; index = previous[index]) {
+    anchors.push([candidates[index].indexA, candidates[index].indexB]);
+  }
+  return anchors.reverse();
+}
+
+// Word-level redline of one clause's old and new wording
+export function diffWords(oldText: string, newText: string): DiffSegment[] {
+  const oldWords = oldText.match(/\S+\s*/g) || [];
+  const newWords = newText.match(/\S+\s*/g) || [];
+  const pairs = longestCommonSubsequence(oldWords.map(word => word.trim()), newWords.map(word => word.trim()));
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment["type"], text: string) => {
+    if (!text) return;
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) last.text += text;
+    else segments.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  for (const [oldIndex, newIndex] of [...pairs, [oldWords.length, newWords.length] as [number, number]]) {
+    push("removed", oldWords.slice(i, oldIndex).join(""));
+    push("added", newWords.slice(j, newIndex).join(""));
+    if (oldIndex < oldWords.length) push("equal", newWords[newIndex]);
+    i = oldIndex + 1;
+    j = newIndex + 1;
+  }
+  return segments;
+}
+
+// Compare two versions clause by clause, in the order of the newer version with
+// removed clauses shown where they used to be
+export function diffDocuments(fromChunks: OrderedChunk[], toChunks: OrderedChunk[]): ClauseDiff[] {
+  const before = splitClauses(joinChunks(fromChunks));
+  const after = splitClauses(joinChunks(toChunks));
+
+  // Identical wording first, then clauses between those that read alike
+  const anchors = longestCommonSubsequence(before.map(clause => clause.key), after.map(clause => clause.key));
+  const pairs: { from: number; to: number; same: boolean }[] = [];
+  let previousFrom = -1;
+  let previousTo = -1;
+  for (const [anchorFrom, anchorTo] of [...anchors, [before.length, after.length] as [number, number]]) {
+    let nextTo = previousTo + 1;
+    for (let from = previousFrom + 1; from < anchorFrom; from++) {
+      let best = -1;
+      let bestScore = SIMILARITY_THRESHOLD;
+      for (let to = nextTo; to < Math.min(anchorTo, nextTo + SIMILARITY_WINDOW); to++) {
+        const score = similarity(before[from].words, after[to].words);
+        if (score > bestScore || (best === -1 && score === bestScore)) {
+          best = to;
+          bestScore = score;
+        }
+      }
+      if (best !== -1) {
+        pairs.push({ from, to: best, same: false });
+        nextTo = best + 1;
+      }
+    }
+    if (anchorFrom < before.length) pairs.push({ from: anchorFrom, to: anchorTo, same: true });
+    previousFrom = anchorFrom;
+    previousTo = anchorTo;
+  }
+
+  const clauses: ClauseDiff[] = [];
+  let from = 0;
+  let to = 0;
+  for (const pair of [...pairs, { from: before.length, to: after.length, same: true }]) {
+    for (; from < pair.from; from++) {
+      clauses.push({ change: "removed", oldLabel: before[from].label, oldText: before[from].text });
+    }
+    for (; to < pair.to; to++) {
+      clauses.push({ change: "added", newLabel: after[to].label, newText: after[to].text });
+    }
+    if (pair.from < before.length) {
+      const oldClause = before[pair.from];
+      const newClause = after[pair.to];
+      clauses.push(pair.same
+        ? { change: "unchanged", oldLabel: oldClause.label, newLabel: newClause.label, newText: newClause.text }
+        : {
+            change: "changed",
+            oldLabel: oldClause.label,
+            newLabel: newClause.label,
+            oldText: oldClause.text,
+            newText: newClause.text,
+            segments: diffWords(oldClause.text, newClause.text),
+          });
+    }
+    from = pair.from + 1;
+    to = pair.to + 1;
+  }
+
+  return clauses;
+}
+
+export function countChanges(clauses: ClauseDiff[]): Record<ClauseChange, number> {
+  const counts: Record<ClauseChange, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  for (const clause of clauses) counts[clause.change]++;
+  return counts;
+}
+
+// One change as the model reads it when asked to explain the changes
+export function describeChange(clause: ClauseDiff): string {
+  switch (clause.change) {
+    case "added":
+      return `Added clause ${clause.newLabel}:\n${clause.newText}`;
+    case "removed":
+      return `Removed clause ${clause.oldLabel}:\n${clause.oldText}`;
+    case "changed": {
+      const renumbered = clause.oldLabel !== clause.newLabel ? ` (was ${clause.oldLabel})` : "";
+      return `Changed clause ${clause.newLabel}${renumbered}:\nBefore: ${clause.oldText}\nAfter: ${clause.newText}`;
+    }
+    case "unchanged":
+      return `Unchanged clause ${clause.newLabel}`;
+  }
+}
@@ -0,0 +1,64 @@
+// src/lib/documentVersions.ts
+
+import { randomUUID } from "crypto";
+import { readJson, toStorageKey, withFileLock, writeJson } from "./storage";
+
+// Uploads can be linked as successive versions of one document, e.g. the drafts
+// exchanged during a negotiation. Each user's version groups are kept in one
+// file; a document belongs to at most one group.
+
+export interface VersionGroup {
+  id: string;
+  // Oldest first; a document's version number is its position plus one
+  documentIds: string[];
+  createdAt: string;
+}
+
+function versionsPath(ownerId: string): string {
+  return `versions/${toStorageKey(ownerId)}.json`;
+}
+
+export async function listVersionGroups(ownerId: string): Promise<VersionGroup[]> {
+  return readJson<VersionGroup[]>(versionsPath(ownerId), []);
+}
+
+export async function findVersionGroup(ownerId: string, documentId: string): Promise<VersionGroup | null> {
+  return (await listVersionGroups(ownerId)).find(group => group.documentIds.includes(documentId)) || null;
+}
+
+// Take a document out of its group; groups left with a single document are dropped
+function withoutDocument(groups: VersionGroup[], documentId: string): VersionGroup[] {
+  return groups
+    .map(group => ({ ...group, documentIds: group.documentIds.filter(id => id !== documentId) }))
+    .filter(group => group.documentIds.length > 1);
+}
+
+// Record a document as the latest version of the group `previousDocumentId`
+// belongs to, starting a new group if it has none. A document already linked
+// elsewhere is moved.
+export async function linkVersion(ownerId: string, documentId: string, previousDocumentId: string): Promise<VersionGroup> {
+  const path = versionsPath(ownerId);
+  return withFileLock(path, async () => {
+    const groups = withoutDocument(await listVersionGroups(ownerId), documentId);
+    let group = groups.find(entry => entry.documentIds.includes(previousDocumentId));
+
+    if (group) {
+      group.documentIds.push(documentId);
+    } else {
+      group = { id: randomUUID(), documentIds: [previousDocumentId, documentId], createdAt: new Date().toISOString() };
+      groups.push(group);
+    }
+
+    await writeJson(path, groups);
+    return group;
+  });
+}
+
+export async function unlinkVersion(ownerId: string, documentId: string): Promise<void> {
+  const path = versionsPath(ownerId);
+  await withFileLock(path, async () => {
+    const groups = await listVersionGroups(ownerId);
+    if (!groups.some(group => group.documentIds.includes(documentId))) return;
+    await writeJson(path, withoutDocument(groups, documentId));
+  });
+}
@@ -0,0 +1,294 @@
+// src/lib/documents.ts
+
+import { createHash } from "crypto";
+import { MetadataFilter, VectorMetadata, getVectorStore } from "./vectorStore";
+import { clearChatHistory } from "./chatHistory";
+import { clearAnalysisHistory } from "./analysisHistory";
+import { findVersionGroup, unlinkVersion } from "./documentVersions";
+import { clearFailedChunks, getFailedChunks, getFailedChunksByDocument } from "./embeddingFailures";
+import { removeFromSearchIndex } from "./searchIndex";
+import type { ChunkLocation } from "./chunking";
+
+// Documents are identified by the SHA-256 of their bytes, so the same file
+// always maps to the same id and the same vector ids
+export function computeDocumentId(content: ArrayBuffer): string {
+  return createHash("sha256").update(Buffer.from(content)).digest("hex");
+}
+
+// Vector ids include the owner, so two users uploading the same file get separate copies
+export function chunkVectorId(ownerId: string, documentId: string, chunkIndex: number): string {
+  return `${vectorIdPrefix(ownerId, documentId)}${chunkIndex}`;
+}
+
+// Start of the ids of a user's chunks, or of one document's. Listings are
+// narrowed by it so a lookup never reads other users' vectors.
+export function vectorIdPrefix(ownerId: string, documentId?: string): string {
+  return documentId === undefined ? `${ownerId}_` : `${ownerId}_${documentId}_chunk_`;
+}
+
+// Every lookup goes through this filter so users only ever see their own vectors
+export function ownedBy(ownerId: string, filter: MetadataFilter = {}): MetadataFilter {
+  return { ...filter, ownerId: { $eq: ownerId } };
+}
+
+export interface StoredDocument {
+  documentId: string;
+  fileName: string;
+  // Chunk count recorded at ingestion
+  totalChunks: number;
+}
+
+// Look up a stored document by id from the metadata of one of its chunks. A
+// document none of whose chunks could be embedded is known from its failures,
+// so they can still be retried.
+export async function findDocument(ownerId: string, documentId: string): Promise<StoredDocument | null> {
+  const [chunk] = await getVectorStore().list({
+    prefix: vectorIdPrefix(ownerId, documentId),
+    filter: ownedBy(ownerId, { documentId: { $eq: documentId } }),
+    limit: 1,
+  });
+  const metadata = chunk?.metadata || (await getFailedChunks(ownerId, documentId))[0]?.metadata;
+  if (!metadata) return null;
+
+  return {
+    documentId,
+    fileName: String(metadata.filename),
+    totalChunks: Number(metadata.totalChunks) || 1,
+  };
+}
+
+export interface OrderedChunk extends ChunkLocation {
+  chunkIndex: number;
+  content: string;
+}
+
+// Every stored chunk of a document in reading order, plus the chunk count
+// recorded at ingestion so callers can tell if any are missing. The document id
+// is missing for documents stored before ids were recorded.
+export async function getDocumentChunks(ownerId: string, fileName: string): Promise<{ documentId?: string; chunks: OrderedChunk[]; totalChunks: number }> {
+  const stored = await getVectorStore().list({
+    prefix: vectorIdPrefix(ownerId),
+    filter: ownedBy(ownerId, { filename: { $eq: fileName } }),
+  });
+
+  const byIndex = new Map<number, OrderedChunk>();
+  let totalChunks = 0;
+  let documentId: string | undefined;
+  for (const { metadata } of stored) {
+    if (!metadata.content) continue;
+    if (metadata.documentId) documentId = String(metadata.documentId);
+    const chunkIndex = Number(metadata.chunkIndex);
+    byIndex.set(chunkIndex, {
+      ...(metadata as ChunkLocation),
+      chunkIndex,
+      content: String(metadata.content),
+    });
+    totalChunks = Math.max(totalChunks, Number(metadata.totalChunks) || 0);
+  }
+
+  const chunks = Array.from(byIndex.values()).sort((a, b) => a.chunkIndex - b.chunkIndex);
+  return { documentId, chunks, totalChunks: Math.max(totalChunks, chunks.length) };
+}
+
+export interface DocumentSummary {
+  documentId: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  uploadDate: string;
+  totalChunks: number;
+  totalPages?: number;
+  // ISO 639-1 code detected at upload, "und" if unknown
+  language?: string;
+  // Chunks that could not be embedded and are waiting to be retried. A
+  // document is listed even when none of its chunks could be embedded.
+  chunksFailed: number;
+}
+
+export interface DocumentDetail extends DocumentSummary {
+  // Chunks actually present in the store; less than totalChunks if some are missing
+  chunksStored: number;
+  sections: string[];
+  embeddingModels: string[];
+}
+
+export type DocumentSort = "newest" | "oldest" | "name";
+
+export interface DocumentQuery {
+  // Case-insensitive match against the file name
+  search?: string;
+  // File extension such as ".pdf"
+  extension?: string;
+  uploadedAfter?: Date;
+  uploadedBefore?: Date;
+  sort?: DocumentSort;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface DocumentPage {
+  documents: DocumentSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+function toSummary(documentId: string, metadata: VectorMetadata, chunksFailed: number): DocumentSummary {
+  return {
+    documentId,
+    fileName: String(metadata.filename),
+    fileSize: Number(metadata.fileSize) || 0,
+    fileType: String(metadata.fileType || ""),
+    uploadDate: String(metadata.uploadDate || ""),
+    totalChunks: Number(metadata.totalChunks) || 0,
+    ...(metadata.totalPages !== undefined && { totalPages: Number(metadata.totalPages) }),
+    ...(metadata.language !== undefined && { language: String(metadata.language) }),
+    chunksFailed,
+  };
+}
+
+// One summary per document the user has stored, built from the metadata of its
+// stored or failed chunks, as findDocument finds them. Chunks from before
+// documents had ids cannot be addressed and are left out.
+export async function listDocuments(ownerId: string): Promise<DocumentSummary[]> {
+  const records = await getVectorStore().list({ prefix: vectorIdPrefix(ownerId), filter: ownedBy(ownerId) });
+  const failures = await getFailedChunksByDocument(ownerId);
+
+  const documents = new Map<string, DocumentSummary>();
+  const add = (metadata: VectorMetadata) => {
+    if (!metadata.documentId || !metadata.filename) return;
+    const documentId = String(metadata.documentId);
+    if (!documents.has(documentId)) {
+      documents.set(documentId, toSummary(documentId, metadata, failures.get(documentId)?.length || 0));
+    }
+  };
+  for (const { metadata } of records) add(metadata);
+  for (const chunks of Array.from(failures.values())) add(chunks[0].metadata);
+
+  return Array.from(documents.values());
+}
+
+export async function queryDocuments(ownerId: string, query: DocumentQuery = {}): Promise<DocumentPage> {
+  const { search, extension, uploadedAfter, uploadedBefore, sort = "newest" } = query;
+  const pageSize = Math.min(Math.max(query.pageSize || 20, 1), 100);
+
+  const matching = (await listDocuments(ownerId)).filter(document => {
+    const uploaded = new Date(document.uploadDate).getTime();
+    return (
+      (!search || document.fileName.toLowerCase().includes(search.toLowerCase())) &&
+      (!extension || document.fileName.toLowerCase().endsWith(extension.toLowerCase())) &&
+      (!uploadedAfter || uploaded >= uploadedAfter.getTime()) &&
+      (!uploadedBefore || uploaded <= uploadedBefore.getTime())
+    );
+  });
+
+  matching.sort((a, b) => {
+    if (sort === "name") return a.fileName.localeCompare(b.fileName);
+    // Documents without an upload date sort as the oldest
+    const difference = (new Date(a.uploadDate).getTime() || 0) - (new Date(b.uploadDate).getTime() || 0);
+    return sort === "oldest" ? difference : -difference;
+  });
+
+  const totalPages = Math.max(Math.ceil(matching.length / pageSize), 1);
+  const page = Math.min(Math.max(query.page || 1, 1), totalPages);
+
+  return {
+    documents: matching.slice((page - 1) * pageSize, page * pageSize),
+    total: matching.length,
+    page,
+    pageSize,
+    totalPages,
+  };
+}
+
+export async function getDocumentDetail(ownerId: string, documentId: string): Promise<DocumentDetail | null> {
+  const chunks = await getVectorStore().list({
+    prefix: vectorIdPrefix(ownerId, documentId),
+    filter: ownedBy(ownerId, { documentId: { $eq: documentId } }),
+  });
+  const failures = await getFailedChunks(ownerId, documentId);
+  // Known from its failed chunks alone when none could be embedded, as in findDocument
+  const metadata = chunks[0]?.metadata || failures[0]?.metadata;
+  if (!metadata) return null;
+
+  const ordered = chunks.sort((a, b) => Number(a.metadata.chunkIndex) - Number(b.metadata.chunkIndex));
+  const unique = (values: unknown[]) =>
+    Array.from(new Set(values.filter(value => value !== undefined && value !== "").map(String)));
+
+  return {
+    ...toSummary(documentId, ordered[0]?.metadata || metadata, failures.length),
+    chunksStored: chunks.length,
+    sections: unique(ordered.map(chunk => chunk.metadata.section)),
+    embeddingModels: unique(ordered.map(chunk => chunk.metadata.embeddingModel)),
+  };
+}
+
+export interface DocumentVersion extends DocumentSummary {
+  version: number;
+}
+
+// The stored versions of a document, oldest first: just the document itself
+// when it has not been linked to others. Versions still being processed, or
+// since removed, are left out and the rest numbered in order.
+export async function getDocumentVersions(ownerId: string, documentId: string): Promise<DocumentVersion[]> {
+  const group = await findVersionGroup(ownerId, documentId);
+  const documents = new Map((await listDocuments(ownerId)).map(document => [document.documentId, document]));
+
+  return (group?.documentIds || [documentId])
+    .filter(id => documents.has(id))
+    .map((id, index) => ({ ...(documents.get(id) as DocumentSummary), version: index + 1 }));
+}
+
+// Documents currently stored under the file name, including those known only
+// from their failed chunks
+export async function findDocumentsByFileName(ownerId: string, fileName: string): Promise<string[]> {
+  const chunks = await getVectorStore().list({
+    prefix: vectorIdPrefix(ownerId),
+    filter: ownedBy(ownerId, { filename: { $eq: fileName } }),
+  });
+  const failed = Array.from((await getFailedChunksByDocument(ownerId)).entries())
+    .filter(([, failures]) => failures[0].metadata.filename === fileName)
+    .map(([documentId]) => documentId);
+  return Array.from(new Set([
+    ...chunks.filter(chunk => chunk.metadata.documentId).map(chunk => String(chunk.metadata.documentId)),
+    ...failed,
+  ]));
+}
+
+// Remove a document's vectors, search terms and failed chunks
+async function deleteDocumentVectors(ownerId: string, documentId: string): Promise<void> {
+  await getVectorStore().delete({
+    prefix: vectorIdPrefix(ownerId, documentId),
+    filter: ownedBy(ownerId, { documentId: { $eq: documentId } }),
+  });
+  await removeFromSearchIndex(ownerId, documentId);
+  await clearFailedChunks(ownerId, documentId);
+}
+
+// Remove the chunks of an earlier ingestion of a document that the latest one
+// did not store again, once the new chunks are in place
+export async function deleteStaleChunks(ownerId: string, documentId: string, storedIds: string[]): Promise<void> {
+  const stored = new Set(storedIds);
+  const stale = (await getVectorStore().list({
+    prefix: vectorIdPrefix(ownerId, documentId),
+    filter: ownedBy(ownerId, { documentId: { $eq: documentId } }),
+  })).map(record => record.id).filter(id => !stored.has(id));
+  if (stale.length === 0) return;
+
+  await getVectorStore().delete({ ids: stale });
+  await removeFromSearchIndex(ownerId, documentId, stale);
+}
+
+// Remove every vector and stored artifact belonging to a document
+export async function deleteDocument(ownerId: string, documentId: string): Promise<StoredDocument | null> {
+  const document = await findDocument(ownerId, documentId);
+  if (!document) return null;
+
+  await deleteDocumentVectors(ownerId, documentId);
+  await clearChatHistory(ownerId, documentId);
+  await clearAnalysisHistory(ownerId, documentId);
+  await unlinkVersion(ownerId, documentId);
+
+  return document;
+}
@@ -0,0 +1,334 @@
+// src/lib/docx.ts
+
+import JSZip from "jszip";
+import WordExtractor from "word-extractor";
+import { DOMParser, Element, Node } from "@xmldom/xmldom";
+import type { DocumentBlock } from "./extraction";
+
+interface NumberingLevel {
+  start: number;
+  format: string;
+  text: string;
+}
+
+interface StyleInfo {
+  name: string;
+  basedOn?: string;
+  outlineLevel?: number;
+  numId?: string;
+  numLevel?: number;
+}
+
+type RevisionMode = "normal" | "inserted" | "deleted";
+
+// Direct element children, optionally restricted to one WordprocessingML tag
+function childElements(element: Element, localName?: string): Element[] {
+  const children: Element[] = [];
+  for (let node = element.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType === Node.ELEMENT_NODE && (!localName || node.localName === localName)) {
+      children.push(node as Element);
+    }
+  }
+  return children;
+}
+
+function firstChild(element: Element | undefined, localName: string): Element | undefined {
+  return element ? childElements(element, localName)[0] : undefined;
+}
+
+function attribute(element: Element | undefined, name: string): string | undefined {
+  return element?.getAttribute(`w:${name}`) ?? undefined;
+}
+
+async function readXml(zip: JSZip, path: string): Promise<Element | undefined> {
+  const content = await zip.file(path)?.async("string");
+  if (!content) return undefined;
+  return new DOMParser().parseFromString(content, "text/xml").documentElement ?? undefined;
+}
+
+function parseStyles(root: Element | undefined): Map<string, StyleInfo> {
+  const styles = new Map<string, StyleInfo>();
+  if (!root) return styles;
+
+  for (const style of childElements(root, "style")) {
+    const styleId = attribute(style, "styleId");
+    if (!styleId) continue;
+
+    const pPr = firstChild(style, "pPr");
+    const numPr = firstChild(pPr, "numPr");
+    const outlineLevel = attribute(firstChild(pPr, "outlineLvl"), "val");
+    const numLevel = attribute(firstChild(numPr, "ilvl"), "val");
+
+    styles.set(styleId, {
+      name: attribute(firstChild(style, "name"), "val") || styleId,
+      basedOn: attribute(firstChild(style, "basedOn"), "val"),
+      outlineLevel: outlineLevel !== undefined ? Number(outlineLevel) : undefined,
+      numId: attribute(firstChild(numPr, "numId"), "val"),
+      numLevel: numLevel !== undefined ? Number(numLevel) : undefined,
+    });
+  }
+
+  return styles;
+}
+
+// Map each numbering instance to the level definitions of its abstract list
+function parseNumbering(root: Element | undefined): Map<string, NumberingLevel[]> {
+  const numbering = new Map<string, NumberingLevel[]>();
+  if (!root) return numbering;
+
+  const abstractLevels = new Map<string, NumberingLevel[]>();
+  for (const abstractNum of childElements(root, "abstractNum")) {
+    const levels: NumberingLevel[] = [];
+    for (const level of childElements(abstractNum, "lvl")) {
+      levels[Number(attribute(level, "ilvl") || 0)] = {
+        start: Number(attribute(firstChild(level, "start"), "val") || 1),
+        format: attribute(firstChild(level, "numFmt"), "val") || "decimal",
+        text: attribute(firstChild(level, "lvlText"), "val") || "",
+      };
+    }
+    abstractLevels.set(attribute(abstractNum, "abstractNumId") || "", levels);
+  }
+
+  for (const num of childElements(root, "num")) {
+    const abstractId = attribute(firstChild(num, "abstractNumId"), "val") || "";
+    const levels = [...(abstractLevels.get(abstractId) || [])];
+
+    for (const override of childElements(num, "lvlOverride")) {
+      const levelIndex = Number(attribute(override, "ilvl") || 0);
+      const startOverride = attribute(firstChild(override, "startOverride"), "val");
+      if (startOverride !== undefined && levels[levelIndex]) {
+        levels[levelIndex] = { ...levels[levelIndex], start: Number(startOverride) };
+      }
+    }
+
+    numbering.set(attribute(num, "numId") || "", levels);
+  }
+
+  return numbering;
+}
+
+function toRoman(value: number): string {
+  const numerals: [number, string][] = [
+    [1000, "m"], [900, "cm"], [500, "d"], [400, "cd"], [100, "c"], [90, "xc"],
+    [50, "l"], [40, "xl"], [10, "x"], [9, "ix"], [5, "v"], [4, "iv"], [1, "i"],
+  ];
+  let result = "";
+  for (const [amount, numeral] of numerals) {
+    while (value >= amount) {
+      result += numeral;
+      value -= amount;
+    }
+  }
+  return result;
+}
+
+function toLetter(value: number): string {
+  let result = "";
+  while (value > 0) {
+    value -= 1;
+    result = String.fromCharCode(97 + (value % 26)) + result;
+    value = Math.floor(value / 26);
+  }
+  return result;
+}
+
+function formatNumber(value: number, format: string): string {
+  switch (format) {
+    case "lowerLetter":
+      return toLetter(value);
+    case "upperLetter":
+      return toLetter(value).toUpperCase();
+    case "lowerRoman":
+      return toRoman(value);
+    case "upperRoman":
+      return toRoman(value).toUpperCase();
+    default:
+      return String(value);
+  }
+}
+
+// Tracks list counters as paragraphs are visited so clause numbers match what Word displays
+function createNumberingTracker(numbering: Map<string, NumberingLevel[]>) {
+  const counters = new Map<string, number[]>();
+
+  return (numId: string, levelIndex: number): string | undefined => {
+    const levels = numbering.get(numId);
+    const level = levels?.[levelIndex];
+    if (!levels || !level) return undefined;
+
+    const current = counters.get(numId) || [];
+    current[levelIndex] = current[levelIndex] !== undefined ? current[levelIndex] + 1 : level.start;
+    current.length = levelIndex + 1;
+    counters.set(numId, current);
+
+    if (level.format === "bullet") return "•";
+    if (level.format === "none") return undefined;
+
+    return level.text.replace(/%(\d)/g, (_, position: string) => {
+      const index = Number(position) - 1;
+      const value = current[index] ?? levels[index]?.start ?? 1;
+      return formatNumber(value, levels[index]?.format || "decimal");
+    }).trim() || undefined;
+  };
+}
+
+// Collect run text, keeping tracked insertions and deletions visible to the analysis
+function collectText(element: Element, mode: RevisionMode, parts: { mode: RevisionMode; text: string }[]) {
+  for (const child of childElements(element)) {
+    switch (child.localName) {
+      case "t":
+      case "delText":
+        parts.push({ mode, text: child.textContent || "" });
+        break;
+      case "tab":
+        parts.push({ mode, text: "\t" });
+        break;
+      case "br":
+      case "cr":
+        parts.push({ mode, text: "\n" });
+        break;
+      case "ins":
+      case "moveTo":
+        collectText(child, "inserted", parts);
+        break;
+      case "del":
+      case "moveFrom":
+        collectText(child, "deleted", parts);
+        break;
+      case "pPr":
+      case "rPr":
+      case "instrText":
+        break;
+      default:
+        collectText(child, mode, parts);
+    }
+  }
+}
+
+function paragraphText(paragraph: Element): string {
+  const parts: { mode: RevisionMode; text: string }[] = [];
+  collectText(paragraph, "normal", parts);
+
+  // Merge neighbouring runs that share the same revision state
+  const merged: { mode: RevisionMode; text: string }[] = [];
+  for (const part of parts) {
+    const last = merged[merged.length - 1];
+    if (last && last.mode === part.mode) {
+      last.text += part.text;
+    } else {
+      merged.push({ ...part });
+    }
+  }
+
+  return merged.map(part => {
+    if (part.mode === "inserted") return ` [Inserted: ${part.text.trim()}] `;
+    if (part.mode === "deleted") return ` [Deleted: ${part.text.trim()}] `;
+    return part.text;
+  }).join("").trim();
+}
+
+function resolveStyle(styles: Map<string, StyleInfo>, styleId: string | undefined): StyleInfo[] {
+  const chain: StyleInfo[] = [];
+  const seen = new Set<string>();
+  while (styleId && styles.has(styleId) && !seen.has(styleId)) {
+    seen.add(styleId);
+    const style = styles.get(styleId) as StyleInfo;
+    chain.push(style);
+    styleId = style.basedOn;
+  }
+  return chain;
+}
+
+function headingLevel(pPr: Element | undefined, styleChain: StyleInfo[]): number | undefined {
+  const outlineLevel = attribute(firstChild(pPr, "outlineLvl"), "val");
+  if (outlineLevel !== undefined && Number(outlineLevel) < 9) return Number(outlineLevel) + 1;
+
+  for (const style of styleChain) {
+    if (/^title$/i.test(style.name)) return 1;
+    const match = style.name.match(/^heading\s*(\d)$/i);
+    if (match) return Number(match[1]);
+    if (style.outlineLevel !== undefined && style.outlineLevel < 9) return style.outlineLevel + 1;
+  }
+
+  return undefined;
+}
+
+// Extract a .docx file as one block per paragraph or table, tagged with its heading and clause number
+export async function extractDocx(buffer: ArrayBuffer): Promise<DocumentBlock[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  const documentRoot = await readXml(zip, "word/document.xml");
+  const body = firstChild(documentRoot, "body");
+  if (!body) {
+    throw new Error("Missing document body");
+  }
+
+  const styles = parseStyles(await readXml(zip, "word/styles.xml"));
+  const nextNumber = createNumberingTracker(parseNumbering(await readXml(zip, "word/numbering.xml")));
+
+  const blocks: DocumentBlock[] = [];
+  const headings: string[] = [];
+  const currentSection = () => headings.filter(Boolean).join(" > ") || undefined;
+
+  const visitParagraph = (paragraph: Element) => {
+    const pPr = firstChild(paragraph, "pPr");
+    const styleChain = resolveStyle(styles, attribute(firstChild(pPr, "pStyle"), "val"));
+
+    // Direct numbering wins over numbering inherited from the paragraph style
+    const numPr = firstChild(pPr, "numPr");
+    const numberingStyle = styleChain.find(style => style.numId !== undefined);
+    const numId = attribute(firstChild(numPr, "numId"), "val") ?? numberingStyle?.numId;
+    const numLevel = Number(attribute(firstChild(numPr, "ilvl"), "val") ?? numberingStyle?.numLevel ?? 0);
+    const label = numId && numId !== "0" ? nextNumber(numId, numLevel) : undefined;
+
+    const text = paragraphText(paragraph);
+    if (!text) return;
+
+    const fullText = label ? `${label} ${text}` : text;
+    const clause = label && label !== "•" ? label.replace(/\.$/, "") : undefined;
+
+    const level = headingLevel(pPr, styleChain);
+    if (level !== undefined) {
+      headings.length = level - 1;
+      headings[level - 1] = fullText;
+    }
+
+    blocks.push({ text: fullText, section: currentSection(), clause });
+  };
+
+  // Each table row becomes its own block so rows stay separate once whitespace is normalised
+  const visitTable = (table: Element) => {
+    for (const row of childElements(table, "tr")) {
+      const text = childElements(row, "tc")
+        .map(cell => Array.from(cell.getElementsByTagName("w:p")).map(paragraphText).filter(Boolean).join(" "))
+        .join(" | ");
+      if (text.replace(/[\s|]/g, "")) {
+        blocks.push({ text, section: currentSection() });
+      }
+    }
+  };
+
+  const visit = (container: Element) => {
+    for (const child of childElements(container)) {
+      if (child.localName === "p") {
+        visitParagraph(child);
+      } else if (child.localName === "tbl") {
+        visitTable(child);
+      } else if (child.localName === "sdt") {
+        // Content controls wrap ordinary paragraphs and tables
+        const content = firstChild(child, "sdtContent");
+        if (content) visit(content);
+      }
+    }
+  };
+
+  visit(body);
+  return blocks;
+}
+
+// Legacy binary .doc files carry no reliable style information, so keep paragraphs only
+export async function extractLegacyDoc(buffer: ArrayBuffer): Promise<DocumentBlock[]> {
+  const extracted = await new WordExtractor().extract(Buffer.from(buffer));
+  return extracted.getBody()
+    .split(/\n+/)
+    .map(text => ({ text }));
+}
@@ -0,0 +1,57 @@
+// src/lib/embeddingFailures.ts
+
+import { listJson, readJson, removeJson, toStorageKey, withFileLock, writeJson } from "./storage";
+import type { VectorMetadata } from "./vectorStore";
+
+// Chunks that could not be embedded are kept out of the vector store rather
+// than stored with made-up vectors. Everything needed to embed them later is
+// recorded here, per user and document, until a retry succeeds or the
+// document is removed.
+
+export interface FailedChunk {
+  // Vector id the chunk is stored under once embedded
+  id: string;
+  chunkIndex: number;
+  metadata: VectorMetadata;
+  error: string;
+  failedAt: string;
+  attempts: number;
+}
+
+function failuresDir(ownerId: string): string {
+  return `embedding-failures/${toStorageKey(ownerId)}`;
+}
+
+function failuresPath(ownerId: string, documentId: string): string {
+  return `${failuresDir(ownerId)}/${toStorageKey(documentId)}.json`;
+}
+
+export async function getFailedChunks(ownerId: string, documentId: string): Promise<FailedChunk[]> {
+  return readJson<FailedChunk[]>(failuresPath(ownerId, documentId), []);
+}
+
+// Failed chunks of each of the user's documents that has any, by document id
+export async function getFailedChunksByDocument(ownerId: string): Promise<Map<string, FailedChunk[]>> {
+  const byDocument = new Map<string, FailedChunk[]>();
+  for (const name of await listJson(failuresDir(ownerId))) {
+    const chunks = await readJson<FailedChunk[]>(`${failuresDir(ownerId)}/${name}.json`, []);
+    const documentId = chunks[0]?.metadata.documentId;
+    if (documentId) byDocument.set(String(documentId), chunks);
+  }
+  return byDocument;
+}
+
+// Replace the document's failed chunks; an empty list clears the record
+export async function saveFailedChunks(ownerId: string, documentId: string, chunks: FailedChunk[]): Promise<void> {
+  if (chunks.length === 0) {
+    await clearFailedChunks(ownerId, documentId);
+    return;
+  }
+  const path = failuresPath(ownerId, documentId);
+  await withFileLock(path, () => writeJson(path, [...chunks].sort((a, b) => a.chunkIndex - b.chunkIndex)));
+}
+
+export async function clearFailedChunks(ownerId: string, documentId: string): Promise<void> {
+  const path = failuresPath(ownerId, documentId);
+  await withFileLock(path, () => removeJson(path));
+}
@@ -0,0 +1,418 @@
+// src/lib/entityExtraction.ts
+
+// Structured output for the "entities" analysis: parties, key dates, notice
+// periods, amounts and renewal terms, each pointing back to the chunk it was
+// taken from, and the iCalendar export of the resulting deadlines.
+
+export const ENTITY_SCHEMA_VERSION = "1.0";
+
+export const DATE_KINDS = ["effective", "termination", "expiry", "renewal", "payment", "deadline", "other"] as const;
+export const PERIOD_UNITS = ["days", "business-days", "weeks", "months", "years"] as const;
+export const NOTICE_PURPOSES = ["termination", "renewal", "other"] as const;
+
+export type DateKind = (typeof DATE_KINDS)[number];
+export type PeriodUnit = (typeof PERIOD_UNITS)[number];
+export type NoticePurpose = (typeof NOTICE_PURPOSES)[number];
+
+// Where a record came from in the document
+export interface EntitySource {
+  // Exact words from the document the record was read from
+  quote: string;
+  chunkIndex: number;
+  // False when the quote could not be found in the cited chunk
+  quoteVerified: boolean;
+}
+
+export interface PartyEntity extends EntitySource {
+  name: string;
+  role: string;
+}
+
+export interface DateEntity extends EntitySource {
+  kind: DateKind;
+  // Calendar date as YYYY-MM-DD
+  date: string;
+  description: string;
+}
+
+export interface NoticePeriodEntity extends EntitySource {
+  length: number;
+  unit: PeriodUnit;
+  purpose: NoticePurpose;
+  description: string;
+}
+
+export interface AmountEntity extends EntitySource {
+  value: number;
+  // ISO 4217 code, e.g. "USD"
+  currency: string;
+  description: string;
+}
+
+export interface RenewalEntity extends EntitySource {
+  automatic: boolean;
+  // Length of each renewal term as written, e.g. "12 months"
+  term: string;
+  description: string;
+}
+
+export interface EntityExtraction {
+  parties: PartyEntity[];
+  dates: DateEntity[];
+  noticePeriods: NoticePeriodEntity[];
+  amounts: AmountEntity[];
+  renewals: RenewalEntity[];
+}
+
+// A dated event for the calendar export
+export interface Deadline {
+  date: string;
+  title: string;
+  description: string;
+  chunkIndex: number;
+}
+
+const quoted = (values: readonly string[]) => values.map(value => `"${value}"`).join(" | ");
+
+export const entityPrompt = `You are a legal data extraction assistant. Extract the following from this legal document:
+- parties: every party to the agreement and its role (for example "Landlord", "Supplier", "Guarantor")
+- dates: effective, termination, expiry, renewal and payment dates and any other deadlines
+- noticePeriods: every notice period and what the notice is for
+- amounts: monetary amounts with their currency
+- renewals: renewal terms, and whether renewal is automatic
+
+Respond with JSON only, no prose and no code fences, in exactly this shape:
+{"parties": [{"name": "<party name>", "role": "<role in the agreement>", "quote": "<exact words copied from the document>", "chunkIndex": <number from the [Chunk N] label the quote appears under>}],
+"dates": [{"kind": ${quoted(DATE_KINDS)}, "date": "YYYY-MM-DD", "description": "<what happens on this date>", "quote": "...", "chunkIndex": <number>}],
+"noticePeriods": [{"length": <number>, "unit": ${quoted(PERIOD_UNITS)}, "purpose": ${quoted(NOTICE_PURPOSES)}, "description": "<who gives notice and when>", "quote": "...", "chunkIndex": <number>}],
+"amounts": [{"value": <number without separators>, "currency": "<ISO 4217 code such as USD>", "description": "<what the amount is for>", "quote": "...", "chunkIndex": <number>}],
+"renewals": [{"automatic": true | false, "term": "<length of each renewal, e.g. 12 months>", "description": "<how renewal works>", "quote": "...", "chunkIndex": <number>}]}
+
+Only list dates the document gives as calendar dates; express relative deadlines ("within 30 days") as notice periods. Quote word for word from a single excerpt. Use an empty array for anything the document does not contain.`;
+
+// Currency symbols the model sometimes returns instead of a code
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  "$": "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY",
+  "₹": "INR",
+};
+
+function normalise(text: string): string {
+  return text.toLowerCase().replace(/[\s"'“”‘’]+/g, " ").trim();
+}
+
+function nonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function isCalendarDate(value: unknown): value is string {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function toNumber(value: unknown): number {
+  return typeof value === "string" ? Number(value.replace(/[,\s]/g, "")) : Number(value);
+}
+
+function oneOf<T extends string>(values: readonly T[], value: unknown, fallback: T): T {
+  const text = String(value).toLowerCase();
+  return (values as readonly string[]).includes(text) ? (text as T) : fallback;
+}
+
+// Parse and validate model output. Records that do not match the schema are
+// dropped; output that is not JSON at all raises an error.
+export function parseEntityExtraction(text: string, chunks: Map<number, string>): EntityExtraction {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  const parsed = JSON.parse(json);
+  const extraction: EntityExtraction = { parties: [], dates: [], noticePeriods: [], amounts: [], renewals: [] };
+
+  // An empty array is how some models say "nothing found"
+  if (Array.isArray(parsed) && parsed.length === 0) return extraction;
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("Entity extraction is not a JSON object");
+  }
+
+  // Run `read` over each record of a list, keeping those with a valid source
+  const records = <T>(key: string, read: (candidate: Record<string, unknown>, source: EntitySource) => T | null): T[] => {
+    const items: unknown = parsed[key];
+    if (!Array.isArray(items)) return [];
+
+    const valid: T[] = [];
+    for (const item of items) {
+      if (typeof item !== "object" || item === null) continue;
+      const candidate = item as Record<string, unknown>;
+      const chunkIndex = Number(candidate.chunkIndex);
+
+      const record = nonEmptyString(candidate.quote) && chunks.has(chunkIndex)
+        ? read(candidate, {
+            quote: candidate.quote.trim(),
+            chunkIndex,
+            quoteVerified: normalise(chunks.get(chunkIndex) as string).includes(normalise(candidate.quote)),
+          })
+        : null;
+
+      if (record) {
+        valid.push(record);
+      } else {
+        console.warn(`Dropping invalid ${key} record:`, candidate);
+      }
+    }
+    return valid;
+  };
+
+  const description = (candidate: Record<string, unknown>) =>
+    nonEmptyString(candidate.description) ? candidate.description.trim() : "";
+
+  extraction.parties = records("parties", (candidate, source) =>
+    nonEmptyString(candidate.name)
+      ? { name: candidate.name.trim(), role: nonEmptyString(candidate.role) ? candidate.role.trim() : "Party", ...source }
+      : null
+  );
+
+  extraction.dates = records("dates", (candidate, source) =>
+    isCalendarDate(candidate.date)
+      ? { kind: oneOf(DATE_KINDS, candidate.kind, "other"), date: candidate.date, description: description(candidate), ...source }
+      : null
+  );
+
+  extraction.noticePeriods = records("noticePeriods", (candidate, source) => {
+    const length = toNumber(candidate.length);
+    const unit = String(candidate.unit).toLowerCase().replace(/\s+/g, "-");
+    if (!Number.isInteger(length) || length <= 0 || length > 3650) return null;
+    if (!(PERIOD_UNITS as readonly string[]).includes(unit)) return null;
+    return {
+      length,
+      unit: unit as PeriodUnit,
+      purpose: oneOf(NOTICE_PURPOSES, candidate.purpose, "other"),
+      description: description(candidate),
+      ...source,
+    };
+  });
+
+  extraction.amounts = records("amounts", (candidate, source) => {
+    const value = toNumber(candidate.value);
+    const code = String(candidate.currency ?? "").trim();
+    const currency = (CURRENCY_SYMBOLS[code] || code).toUpperCase();
+    if (!Number.isFinite(value) || !/^[A-Z]{3}$/.test(currency)) return null;
+    return { value, currency, description: description(candidate), ...source };
+  });
+
+  extraction.renewals = records("renewals", (candidate, source) =>
+    typeof candidate.automatic === "boolean"
+      ? {
+          automatic: candidate.automatic,
+          term: nonEmptyString(candidate.term) ? candidate.term.trim() : "",
+          description: description(candidate),
+          ...source,
+        }
+      : null
+  );
+
+  return extraction;
+}
+
+// Combine the extractions from each part of a long document. Parties named in
+// several parts are listed once; dates are put in calendar order.
+export function mergeEntityExtractions(parts: EntityExtraction[]): EntityExtraction {
+  const parties = new Map<string, PartyEntity>();
+  for (const party of parts.flatMap(part => part.parties)) {
+    const key = normalise(party.name);
+    if (!parties.has(key)) parties.set(key, party);
+  }
+
+  return {
+    parties: Array.from(parties.values()),
+    dates: parts.flatMap(part => part.dates).sort((a, b) => a.date.localeCompare(b.date)),
+    noticePeriods: parts.flatMap(part => part.noticePeriods),
+    amounts: parts.flatMap(part => part.amounts),
+    renewals: parts.flatMap(part => part.renewals),
+  };
+}
+
+const DATE_TITLES: Record<DateKind, string> = {
+  effective: "Effective date",
+  termination: "Termination date",
+  expiry: "Expiry date",
+  renewal: "Renewal date",
+  payment: "Payment due",
+  deadline: "Deadline",
+  other: "Key date",
+};
+
+// Move a YYYY-MM-DD date back by a notice period
+function subtractPeriod(date: string, length: number, unit: PeriodUnit): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  switch (unit) {
+    case "days":
+      day.setUTCDate(day.getUTCDate() - length);
+      break;
+    case "weeks":
+      day.setUTCDate(day.getUTCDate() - length * 7);
+      break;
+    case "months":
+      day.setUTCMonth(day.getUTCMonth() - length);
+      break;
+    case "years":
+      day.setUTCFullYear(day.getUTCFullYear() - length);
+      break;
+    case "business-days":
+      for (let remaining = length; remaining > 0;) {
+        day.setUTCDate(day.getUTCDate() - 1);
+        if (day.getUTCDay() !== 0 && day.getUTCDay() !== 6) remaining--;
+      }
+      break;
+  }
+  return day.toISOString().slice(0, 10);
+}
+
+export function formatPeriod(period: { length: number; unit: PeriodUnit }): string {
+  const unit = period.unit === "business-days" ? "business days" : period.unit;
+  return `${period.length} ${period.length === 1 ? unit.replace(/s$/, "") : unit}`;
+}
+
+// Every dated event in the extraction, plus the last day to give notice where a
+// notice period applies to a known termination, expiry or renewal date
+export function collectDeadlines(extraction: EntityExtraction): Deadline[] {
+  const deadlines: Deadline[] = extraction.dates.map(entry => ({
+    date: entry.date,
+    title: DATE_TITLES[entry.kind],
+    description: entry.description || entry.quote,
+    chunkIndex: entry.chunkIndex,
+  }));
+
+  const targets: Record<NoticePurpose, DateKind[]> = {
+    termination: ["termination", "expiry"],
+    renewal: ["renewal", "expiry", "termination"],
+    other: [],
+  };
+
+  for (const period of extraction.noticePeriods) {
+    const target = extraction.dates.find(entry => targets[period.purpose].includes(entry.kind));
+    if (!target) continue;
+
+    deadlines.push({
+      date: subtractPeriod(target.date, period.length, period.unit),
+      title: `Last day to give ${period.purpose} notice`,
+      description: `${formatPeriod(period)} before the ${DATE_TITLES[target.kind].toLowerCase()} (${target.date}). ${period.description || period.quote}`.trim(),
+      chunkIndex: period.chunkIndex,
+    });
+  }
+
+  return deadlines.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Escape a TEXT value (RFC 5545 section 3.3.11)
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Fold a content line to at most 75 octets; continuation lines begin with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const character of line) {
+    const size = encoder.encode(character).length;
+    if (octets + size > 75) {
+      lines.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += character;
+    octets += size;
+  }
+  lines.push(current);
+
+  return lines.join("\r\n");
+}
+
+// Short stable hash so event UIDs stay the same when a calendar is re-imported
+function hashText(text: string): string {
+  let hash = 5381;
+  for (let index = 0; index < text.length; index++) {
+    hash = ((hash * 33) ^ text.charCodeAt(index)) >>> 0;
+  }
+  return hash.toString(36);
+}
+
+function compactDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function nextDay(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+}
+
+// iCalendar (.ics) file with one all-day event per deadline, each with a
+// reminder a week ahead
+export function toICalendar(deadlines: Deadline[], fileName: string, now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Legal Document Analyzer//Deadlines//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`Deadlines: ${fileName}`)}`,
+  ];
+
+  for (const deadline of deadlines) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${hashText(`${fileName}|${deadline.date}|${deadline.title}|${deadline.chunkIndex}`)}@legal-document-analyzer`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${compactDate(deadline.date)}`,
+      `DTEND;VALUE=DATE:${compactDate(nextDay(deadline.date))}`,
+      `SUMMARY:${escapeText(`${deadline.title}: ${fileName}`)}`,
+      `DESCRIPTION:${escapeText(`${deadline.description}\n\nSource: ${fileName}, chunk ${deadline.chunkIndex}`)}`,
+      "TRANSP:TRANSPARENT",
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      "TRIGGER:-P7D",
+      `DESCRIPTION:${escapeText(deadline.title)}`,
+      "END:VALARM",
+      "END:VEVENT"
+    );
+  }
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// Plain-text rendering used for the result card text and text-to-speech
+export function formatEntityExtraction(extraction: EntityExtraction): string {
+  const { parties, dates, noticePeriods, amounts, renewals } = extraction;
+  if (parties.length + dates.length + noticePeriods.length + amounts.length + renewals.length === 0) {
+    return "No parties, dates, notice periods, amounts or renewal terms were found in this document.";
+  }
+
+  const lines: string[] = [];
+  const section = <T>(title: string, items: T[], describe: (item: T) => string) => {
+    if (items.length === 0) return;
+    lines.push(`${title}:`);
+    for (const item of items) lines.push(`- ${describe(item)}`);
+    lines.push("");
+  };
+
+  section("Parties", parties, party => `${party.name} (${party.role})`);
+  section("Key dates", dates, entry => `${entry.date}: ${DATE_TITLES[entry.kind]}${entry.description ? ` - ${entry.description}` : ""}`);
+  section("Notice periods", noticePeriods, period =>
+    `${formatPeriod(period)} (${period.purpose})${period.description ? ` - ${period.description}` : ""}`);
+  section("Amounts", amounts, amount =>
+    `${amount.currency} ${amount.value.toLocaleString("en-US")}${amount.description ? ` - ${amount.description}` : ""}`);
+  section("Renewal", renewals, renewal =>
+    `${renewal.automatic ? "Automatic" : "Optional"} renewal${renewal.term ? ` for ${renewal.term}` : ""}${renewal.description ? ` - ${renewal.description}` : ""}`);
+
+  return lines.join("\n").trim();
+}
@@ -0,0 +1,227 @@
+// src/lib/extraction.ts
+
+import pdf from "pdf-parse/lib/pdf-parse.js";
+import { extractDocx, extractLegacyDoc } from "./docx";
+import { SUPPORTED_EXTENSIONS, getFileExtension } from "./fileTypes";
+
+export { SUPPORTED_EXTENSIONS, getFileExtension, isSupportedFile } from "./fileTypes";
+
+export type ExtractionErrorCode =
+  | "UNSUPPORTED_FILE_TYPE"
+  | "ENCRYPTED_PDF"
+  | "IMAGE_ONLY_PDF"
+  | "INVALID_PDF"
+  | "INVALID_WORD_DOCUMENT"
+  | "UNREADABLE_TEXT";
+
+// Raised when a file cannot be turned into text. The code lets the API and UI
+// tell the user exactly what to do about it.
+export class DocumentExtractionError extends Error {
+  code: ExtractionErrorCode;
+
+  constructor(code: ExtractionErrorCode, message: string) {
+    super(message);
+    this.name = "DocumentExtractionError";
+    this.code = code;
+  }
+}
+
+// A run of text along with where it came from in the source file
+export interface DocumentBlock {
+  text: string;
+  page?: number;
+  // Heading trail the block sits under, e.g. "4. Termination"
+  section?: string;
+  // Clause number of a numbered paragraph, e.g. "4.2"
+  clause?: string;
+}
+
+export interface ExtractedDocument {
+  text: string;
+  blocks: DocumentBlock[];
+  pageCount?: number;
+}
+
+// Separator placed between blocks when building the full document text
+export const BLOCK_SEPARATOR = "\n\n";
+
+// Pages with fewer characters than this are treated as having no text layer
+const MIN_PAGE_TEXT_LENGTH = 20;
+
+// Function to clean and validate text content. Text in any script is kept;
+// only control characters, byte-order marks and replacement characters go.
+// Line breaks are kept because headings are recognised line by line.
+export function cleanText(text: string): string {
+  const cleaned = text.normalize("NFC") // Compose accents so "é" is one character everywhere
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F\uFEFF\uFFFD]/g, ' ')
+    .replace(/[^\S\n]+/g, ' ') // Collapse spaces and tabs within a line
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n') // At most one blank line between paragraphs
+    .trim();
+
+  return cleaned;
+}
+
+// Function to validate if text is readable (not corrupted)
+export function isValidText(text: string): boolean {
+  // Count code points rather than UTF-16 units so non-BMP scripts are not penalised
+  const characters = Array.from(text);
+
+  // Check for minimum readable content
+  if (characters.length < 10) return false;
+
+  // Letters and combining marks of any script, digits, punctuation and spaces are readable
+  const readableCount = characters.filter(character => /[\p{L}\p{M}\p{N}\p{P}\s]/u.test(character)).length;
+  const ratio = readableCount / characters.length;
+
+  // Should be at least 70% readable characters
+  return ratio > 0.7;
+}
+
+// Build a document from cleaned blocks, dropping any that end up empty
+function buildDocument(blocks: DocumentBlock[], pageCount?: number): ExtractedDocument {
+  const cleanedBlocks = blocks
+    .map(block => ({ ...block, text: cleanText(block.text) }))
+    .filter(block => block.text.length > 0);
+
+  return {
+    text: cleanedBlocks.map(block => block.text).join(BLOCK_SEPARATOR),
+    blocks: cleanedBlocks,
+    pageCount,
+  };
+}
+
+// Render a single PDF page, keeping line breaks where the text moves down the page
+async function renderPdfPage(pageData: {
+  getTextContent: () => Promise<{ items: { str: string; transform: number[] }[] }>;
+}): Promise<string> {
+  const textContent = await pageData.getTextContent();
+  let lastY: number | undefined;
+  let text = "";
+
+  for (const item of textContent.items) {
+    if (lastY === undefined || lastY === item.transform[5]) {
+      text += item.str;
+    } else {
+      text += "\n" + item.str;
+    }
+    lastY = item.transform[5];
+  }
+
+  return text;
+}
+
+async function extractPdf(buffer: ArrayBuffer): Promise<ExtractedDocument> {
+  const pages: string[] = [];
+  let pageCount: number;
+
+  try {
+    const result = await pdf(Buffer.from(buffer), {
+      // Capture each page separately so chunks can be traced back to page numbers
+      pagerender: async (pageData) => {
+        const text = await renderPdfPage(pageData);
+        pages[pageData.pageIndex] = text;
+        return text;
+      },
+    });
+    pageCount = result.numpages;
+  } catch (error) {
+    if (error instanceof Error && error.name === "PasswordException") {
+      throw new DocumentExtractionError(
+        "ENCRYPTED_PDF",
+        "This PDF is password-protected. Please remove the password and upload it again."
+      );
+    }
+    throw new DocumentExtractionError(
+      "INVALID_PDF",
+      "This PDF could not be read. It may be damaged or not a valid PDF file."
+    );
+  }
+
+  const document = buildDocument(
+    pages.map((text, index) => ({ text: text || "", page: index + 1 })),
+    pageCount
+  );
+
+  // Scanned documents have pages but no text layer
+  const textPages = document.blocks.filter(block => block.text.length >= MIN_PAGE_TEXT_LENGTH);
+  if (textPages.length === 0) {
+    throw new DocumentExtractionError(
+      "IMAGE_ONLY_PDF",
+      "This PDF contains only scanned images and no selectable text. Please run it through OCR or upload a text-based version."
+    );
+  }
+
+  return document;
+}
+
+async function extractWordDocument(buffer: ArrayBuffer, legacy: boolean): Promise<ExtractedDocument> {
+  let blocks: DocumentBlock[];
+  try {
+    blocks = legacy ? await extractLegacyDoc(buffer) : await extractDocx(buffer);
+  } catch {
+    throw new DocumentExtractionError(
+      "INVALID_WORD_DOCUMENT",
+      "This Word document could not be read. It may be damaged or password-protected."
+    );
+  }
+
+  const document = buildDocument(blocks);
+  if (!isValidText(document.text)) {
+    throw new DocumentExtractionError(
+      "UNREADABLE_TEXT",
+      "No readable text was found in this Word document."
+    );
+  }
+
+  return document;
+}
+
+function extractPlainText(buffer: ArrayBuffer): ExtractedDocument {
+  let text: string;
+  try {
+    // Try UTF-8 first
+    text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    // If UTF-8 fails, fall back to Latin-1
+    text = new TextDecoder('iso-8859-1').decode(buffer);
+  }
+
+  const document = buildDocument([{ text }]);
+  if (!isValidText(document.text)) {
+    throw new DocumentExtractionError(
+      "UNREADABLE_TEXT",
+      "Failed to read text file. Please ensure it's a valid UTF-8 encoded text file."
+    );
+  }
+
+  return document;
+}
+
+// Extract text from different file types
+export async function extractDocument(file: File): Promise<ExtractedDocument> {
+  const extension = getFileExtension(file.name);
+  const buffer = await file.arrayBuffer();
+
+  if (file.type === 'application/pdf' || extension === '.pdf') {
+    return extractPdf(buffer);
+  }
+
+  if (extension === '.docx') {
+    return extractWordDocument(buffer, false);
+  }
+
+  if (extension === '.doc') {
+    return extractWordDocument(buffer, true);
+  }
+
+  if (file.type === 'text/plain' || extension === '.txt') {
+    return extractPlainText(buffer);
+  }
+
+  throw new DocumentExtractionError(
+    "UNSUPPORTED_FILE_TYPE",
+    `Unsupported file type. Supported formats: ${SUPPORTED_EXTENSIONS.join(", ")}`
+  );
+}
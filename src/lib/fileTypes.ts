@@ -0,0 +1,20 @@
+// src/lib/fileTypes.ts
+
+// The file types the upload pipeline knows how to read, in one place so the
+// file pickers accept exactly what lib/extraction can extract.
+
+export const SUPPORTED_EXTENSIONS = [".pdf", ".docx", ".doc", ".txt"];
+
+export function getFileExtension(fileName: string): string {
+  return "." + fileName.split(".").pop()?.toLowerCase();
+}
+
+export function isSupportedFile(fileName: string): boolean {
+  return SUPPORTED_EXTENSIONS.includes(getFileExtension(fileName));
+}
+
+// Value for the accept attribute of a file input
+export const SUPPORTED_FILE_ACCEPT = SUPPORTED_EXTENSIONS.join(",");
+
+// "PDF, DOCX, DOC, TXT", for telling users what they can upload
+export const SUPPORTED_FORMATS_LABEL = SUPPORTED_EXTENSIONS.map(extension => extension.slice(1).toUpperCase()).join(", ");
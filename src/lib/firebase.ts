@@ -1,8 +1,7 @@
 // Import the functions you need from the SDKs you need
-import { initializeApp } from "firebase/app";
-import { getAnalytics } from "firebase/analytics";
-// TODO: Add SDKs for Firebase products that you want to use
-// https://firebase.google.com/docs/web/setup#available-libraries
+import { getApp, getApps, initializeApp } from "firebase/app";
+import { getAnalytics, isSupported } from "firebase/analytics";
+import { connectAuthEmulator, getAuth } from "firebase/auth";
 
 // Your web app's Firebase configuration
 // For Firebase JS SDK v7.20.0 and later, measurementId is optional
@@ -16,6 +15,34 @@ const firebaseConfig = {
   measurementId: "G-QVL2VFGLN5"
 };
 
-// Initialize Firebase
-const app = initializeApp(firebaseConfig);
-const analytics = getAnalytics(app);
\ No newline at end of file
+// Initialize Firebase once, even across hot reloads
+const app = getApps().length > 0 ? getApp() : initializeApp(firebaseConfig);
+
+export const auth = getAuth(app);
+
+// Point at the local Auth emulator when configured, e.g. "127.0.0.1:9099"
+const emulatorHost = process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST;
+if (emulatorHost && !auth.emulatorConfig) {
+  connectAuthEmulator(auth, `http://${emulatorHost}`, { disableWarnings: true });
+}
+
+// Analytics only exists in the browser, and not against the emulator
+if (typeof window !== "undefined" && !emulatorHost) {
+  isSupported()
+    .then(supported => {
+      if (supported) getAnalytics(app);
+    })
+    .catch(() => undefined);
+}
+
+// fetch() with the signed-in user's ID token attached, for calls to our API routes
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error("Please sign in first");
+  }
+
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", `Bearer ${await user.getIdToken()}`);
+  return fetch(input, { ...init, headers });
+}
@@ -0,0 +1,324 @@
+// src/lib/ingestion.ts
+
+import { randomUUID } from "crypto";
+import type { DocumentChunk } from "./chunking";
+import { embedTexts } from "./llm";
+import { VectorRecord, getVectorStore } from "./vectorStore";
+import {
+  chunkVectorId,
+  deleteDocument,
+  deleteStaleChunks,
+  findDocument,
+  findDocumentsByFileName,
+} from "./documents";
+import { FailedChunk, getFailedChunks, saveFailedChunks } from "./embeddingFailures";
+import { addToSearchIndex } from "./searchIndex";
+import { readJson, toStorageKey, withFileLock, writeJson } from "./storage";
+import { mapWithConcurrency } from "./concurrency";
+
+export type IngestionStatus = "queued" | "embedding" | "storing" | "completed" | "failed";
+
+// An upload, or another attempt at the chunks an earlier upload could not embed
+export type IngestionKind = "upload" | "retry";
+
+export interface IngestionJob {
+  jobId: string;
+  // Firebase uid of the user who uploaded the document
+  ownerId: string;
+  documentId: string;
+  fileName: string;
+  kind: IngestionKind;
+  status: IngestionStatus;
+  chunksTotal: number;
+  chunksEmbedded: number;
+  // Chunks that could not be embedded even after retrying; they are kept out
+  // of the vector store and can be retried with startEmbeddingRetry
+  chunksFailed: number;
+  createdAt: string;
+  updatedAt: string;
+  error?: string;
+  replacedDocumentIds?: string[];
+  embeddingModels?: string[];
+}
+
+export interface IngestionRequest {
+  ownerId: string;
+  documentId: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  pageCount?: number;
+  // ISO 639-1 code from detectLanguage, "und" if unknown
+  language: string;
+  // Chunks already checked with isValidText
+  chunks: DocumentChunk[];
+  // Re-ingest even though this content is already stored
+  replaceExisting: boolean;
+}
+
+type ChunkEmbedding = { values: number[]; model: string } | { error: string };
+
+// Texts sent per embedding request, and requests allowed in flight at once
+const EMBEDDING_BATCH_SIZE = Number(process.env.EMBEDDING_BATCH_SIZE) || 20;
+const EMBEDDING_CONCURRENCY = Number(process.env.EMBEDDING_CONCURRENCY) || 3;
+
+// After this many chunks in a row fail on their own, the embedding service is
+// taken to be down and the job's remaining chunks are marked failed untried
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+// Jobs still running in this process, so status reads and duplicate checks are cheap
+const activeJobs = new Map<string, IngestionJob>();
+
+// Job ids come from request URLs, so they are escaped like any other key
+function jobPath(jobId: string): string {
+  return `jobs/${toStorageKey(jobId)}.json`;
+}
+
+// Snapshots are queued per job file, so they reach disk in the order they were taken
+async function saveJob(job: IngestionJob, changes: Partial<IngestionJob>): Promise<void> {
+  Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+  const snapshot = { ...job };
+  const path = jobPath(job.jobId);
+  await withFileLock(path, () => writeJson(path, snapshot));
+}
+
+// Jobs run in the process that started them, so a job saved as still running
+// that is not running here was cut short by a restart and is reported failed
+export async function getIngestionJob(jobId: string): Promise<IngestionJob | null> {
+  const active = activeJobs.get(jobId);
+  if (active) return active;
+
+  const job = await readJson<IngestionJob | null>(jobPath(jobId), null);
+  if (!job || job.status === "completed" || job.status === "failed") return job;
+  await saveJob(job, { status: "failed", error: "Processing was interrupted, please upload the document again" });
+  return job;
+}
+
+// A job already working on this content for this user, if any
+export function findActiveJob(ownerId: string, documentId: string): IngestionJob | null {
+  for (const job of Array.from(activeJobs.values())) {
+    if (job.ownerId === ownerId && job.documentId === documentId) return job;
+  }
+  return null;
+}
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : "Unknown error");
+
+// Embed one batch, falling back to per-chunk requests if the batch as a whole
+// fails so one bad chunk does not sink the others. `outage` is shared by the
+// batches of a job and set once the service looks down.
+async function embedBatch(texts: string[], outage: { error?: string }): Promise<ChunkEmbedding[]> {
+  if (outage.error) return texts.map(() => ({ error: outage.error as string }));
+
+  try {
+    const result = await embedTexts(texts);
+    return result.vectors.map(values => ({ values, model: result.model }));
+  } catch (error) {
+    console.error("Batch embedding failed, retrying chunks individually:", error);
+  }
+
+  const embeddings: ChunkEmbedding[] = [];
+  let consecutiveFailures = 0;
+  for (const text of texts) {
+    if (outage.error) {
+      embeddings.push({ error: outage.error });
+      continue;
+    }
+
+    try {
+      const result = await embedTexts([text]);
+      embeddings.push({ values: result.vectors[0], model: result.model });
+      consecutiveFailures = 0;
+    } catch (error) {
+      console.error("Error generating embedding:", error);
+      console.error("Problematic text:", text.substring(0, 200));
+      embeddings.push({ error: describeError(error) });
+      if (++consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) outage.error = describeError(error);
+    }
+  }
+  return embeddings;
+}
+
+// Embed texts in batches, counting successes and failures on the job as they come in
+async function embedAll(job: IngestionJob, texts: string[]): Promise<ChunkEmbedding[]> {
+  const batches: string[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    batches.push(texts.slice(i, i + EMBEDDING_BATCH_SIZE));
+  }
+
+  const outage: { error?: string } = {};
+  return (await mapWithConcurrency(batches, EMBEDDING_CONCURRENCY, async batch => {
+    const embeddings = await embedBatch(batch, outage);
+    const failed = embeddings.filter(embedding => "error" in embedding).length;
+    await saveJob(job, {
+      chunksEmbedded: job.chunksEmbedded + batch.length - failed,
+      chunksFailed: job.chunksFailed + failed,
+    });
+    return embeddings;
+  })).flat();
+}
+
+const modelsUsed = (embeddings: ChunkEmbedding[]) =>
+  Array.from(new Set(embeddings.flatMap(embedding => ("model" in embedding ? [embedding.model] : []))));
+
+async function runIngestion(job: IngestionJob, request: IngestionRequest): Promise<void> {
+  const { chunks } = request;
+
+  await saveJob(job, { status: "embedding" });
+  const embeddings = await embedAll(job, chunks.map(chunk => chunk.content));
+
+  await saveJob(job, { status: "storing" });
+
+  const uploadDate = new Date().toISOString();
+  const vectors: VectorRecord[] = [];
+  const failures: FailedChunk[] = [];
+  chunks.forEach((chunk, chunkIndex) => {
+    const embedding = embeddings[chunkIndex];
+    const id = chunkVectorId(request.ownerId, request.documentId, chunkIndex);
+    const metadata = {
+      ownerId: request.ownerId,
+      documentId: request.documentId,
+      filename: request.fileName,
+      fileSize: request.fileSize,
+      uploadDate,
+      chunkIndex: chunkIndex,
+      totalChunks: chunks.length,
+      content: chunk.content,
+      fileType: request.fileType,
+      language: request.language,
+      ...(chunk.pageStart !== undefined && { pageStart: chunk.pageStart }),
+      ...(chunk.pageEnd !== undefined && { pageEnd: chunk.pageEnd }),
+      ...(chunk.section && { section: chunk.section }),
+      ...(chunk.clauses && { clauses: chunk.clauses }),
+      ...(request.pageCount !== undefined && { totalPages: request.pageCount }),
+    };
+
+    if ("error" in embedding) {
+      failures.push({ id, chunkIndex, metadata, error: embedding.error, failedAt: uploadDate, attempts: 1 });
+    } else {
+      vectors.push({ id, values: embedding.values, metadata: { ...metadata, embeddingModel: embedding.model } });
+    }
+  });
+
+  console.log(`Uploading ${vectors.length} vectors to the vector store...`);
+  await getVectorStore().upsert(vectors);
+  await addToSearchIndex(request.ownerId, request.documentId, vectors);
+  await saveFailedChunks(request.ownerId, request.documentId, failures);
+
+  // Only once the new chunks are stored is anything they replace removed, so a
+  // failed upload leaves the earlier copy as it was. A previous copy of this
+  // content keeps its history and version links, which the upload may have
+  // just added to.
+  if (request.replaceExisting) {
+    await deleteStaleChunks(request.ownerId, request.documentId, vectors.map(vector => vector.id));
+  }
+  const replacedDocumentIds = (await findDocumentsByFileName(request.ownerId, request.fileName))
+    .filter(id => id !== request.documentId);
+  for (const id of replacedDocumentIds) {
+    await deleteDocument(request.ownerId, id);
+  }
+
+  await saveJob(job, {
+    status: "completed",
+    replacedDocumentIds,
+    embeddingModels: modelsUsed(embeddings),
+    ...(failures.length > 0 && { error: `${failures.length} of ${chunks.length} chunks could not be embedded` }),
+  });
+}
+
+// Embed the chunks an earlier upload could not, storing those that succeed now
+async function runEmbeddingRetry(job: IngestionJob): Promise<void> {
+  const failures = await getFailedChunks(job.ownerId, job.documentId);
+
+  await saveJob(job, { status: "embedding" });
+  const embeddings = await embedAll(job, failures.map(failure => String(failure.metadata.content)));
+
+  await saveJob(job, { status: "storing" });
+
+  // The document may have been removed while its chunks were being embedded
+  if (!(await findDocument(job.ownerId, job.documentId))) {
+    throw new Error("The document was removed before its chunks could be stored");
+  }
+
+  const failedAt = new Date().toISOString();
+  const vectors: VectorRecord[] = [];
+  const remaining: FailedChunk[] = [];
+  failures.forEach((failure, index) => {
+    const embedding = embeddings[index];
+    if ("error" in embedding) {
+      remaining.push({ ...failure, error: embedding.error, failedAt, attempts: failure.attempts + 1 });
+    } else {
+      vectors.push({ id: failure.id, values: embedding.values, metadata: { ...failure.metadata, embeddingModel: embedding.model } });
+    }
+  });
+
+  if (vectors.length > 0) {
+    await getVectorStore().upsert(vectors);
+    await addToSearchIndex(job.ownerId, job.documentId, vectors);
+  }
+  await saveFailedChunks(job.ownerId, job.documentId, remaining);
+
+  await saveJob(job, {
+    status: "completed",
+    embeddingModels: modelsUsed(embeddings),
+    ...(remaining.length > 0 && { error: `${remaining.length} of ${failures.length} chunks still could not be embedded` }),
+  });
+}
+
+function createJob(ownerId: string, documentId: string, fileName: string, kind: IngestionKind, chunksTotal: number): IngestionJob {
+  const now = new Date().toISOString();
+  return {
+    jobId: randomUUID(),
+    ownerId,
+    documentId,
+    fileName,
+    kind,
+    status: "queued",
+    chunksTotal,
+    chunksEmbedded: 0,
+    chunksFailed: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Record the job and start it. The work continues after the HTTP response is
+// sent; progress is read back with getIngestionJob.
+async function launchJob(job: IngestionJob, run: () => Promise<void>): Promise<IngestionJob> {
+  activeJobs.set(job.jobId, job);
+  await saveJob(job, {});
+
+  run()
+    .catch(async error => {
+      console.error(`Ingestion job ${job.jobId} failed:`, error);
+      // Nothing awaits this chain, so a failure to record the failure is only logged
+      try {
+        await saveJob(job, {
+          status: "failed",
+          error: describeError(error),
+        });
+      } catch (saveError) {
+        console.error(`Could not record the failure of ingestion job ${job.jobId}:`, saveError);
+      }
+    })
+    .finally(() => {
+      activeJobs.delete(job.jobId);
+    });
+
+  return job;
+}
+
+// Queue a document for embedding and storage
+export async function startIngestion(request: IngestionRequest): Promise<IngestionJob> {
+  const job = createJob(request.ownerId, request.documentId, request.fileName, "upload", request.chunks.length);
+  return launchJob(job, () => runIngestion(job, request));
+}
+
+// Queue another attempt at a document's failed chunks, or return null if none failed
+export async function startEmbeddingRetry(ownerId: string, documentId: string, fileName: string): Promise<IngestionJob | null> {
+  const failures = await getFailedChunks(ownerId, documentId);
+  if (failures.length === 0) return null;
+
+  const job = createJob(ownerId, documentId, fileName, "retry", failures.length);
+  return launchJob(job, () => runEmbeddingRetry(job));
+}
@@ -0,0 +1,115 @@
+// src/lib/language.ts
+
+// Document language detection and the output languages offered for analyses.
+
+export interface Language {
+  // ISO 639-1 code, or "und" when the language could not be determined
+  code: string;
+  name: string;
+}
+
+export interface DetectedLanguage extends Language {
+  // Share of the evidence that pointed at this language, 0-1
+  confidence: number;
+}
+
+export const UNDETERMINED: Language = { code: "und", name: "Unknown" };
+
+// Languages an analysis can be written in
+export const OUTPUT_LANGUAGES: Language[] = [
+  { code: "en", name: "English" },
+  { code: "es", name: "Spanish" },
+  { code: "fr", name: "French" },
+  { code: "de", name: "German" },
+  { code: "it", name: "Italian" },
+  { code: "pt", name: "Portuguese" },
+  { code: "nl", name: "Dutch" },
+  { code: "hi", name: "Hindi" },
+  { code: "bn", name: "Bengali" },
+  { code: "ta", name: "Tamil" },
+  { code: "te", name: "Telugu" },
+  { code: "mr", name: "Marathi" },
+  { code: "ar", name: "Arabic" },
+  { code: "ru", name: "Russian" },
+  { code: "zh", name: "Chinese" },
+  { code: "ja", name: "Japanese" },
+  { code: "ko", name: "Korean" },
+];
+
+export function findLanguage(code: string): Language | undefined {
+  return OUTPUT_LANGUAGES.find(language => language.code === code.toLowerCase());
+}
+
+// Scripts that identify a language on their own (or close enough for legal text)
+const SCRIPTS: { pattern: RegExp; language: Language }[] = [
+  { pattern: /[\u0900-\u097F]/, language: { code: "hi", name: "Hindi" } },
+  { pattern: /[\u0980-\u09FF]/, language: { code: "bn", name: "Bengali" } },
+  { pattern: /[\u0A80-\u0AFF]/, language: { code: "gu", name: "Gujarati" } },
+  { pattern: /[\u0A00-\u0A7F]/, language: { code: "pa", name: "Punjabi" } },
+  { pattern: /[\u0B80-\u0BFF]/, language: { code: "ta", name: "Tamil" } },
+  { pattern: /[\u0C00-\u0C7F]/, language: { code: "te", name: "Telugu" } },
+  { pattern: /[\u0C80-\u0CFF]/, language: { code: "kn", name: "Kannada" } },
+  { pattern: /[\u0D00-\u0D7F]/, language: { code: "ml", name: "Malayalam" } },
+  { pattern: /[\u0600-\u06FF]/, language: { code: "ar", name: "Arabic" } },
+  { pattern: /[\u0590-\u05FF]/, language: { code: "he", name: "Hebrew" } },
+  { pattern: /[\u0400-\u04FF]/, language: { code: "ru", name: "Russian" } },
+  { pattern: /[\u0370-\u03FF]/, language: { code: "el", name: "Greek" } },
+  { pattern: /[\u0E00-\u0E7F]/, language: { code: "th", name: "Thai" } },
+  { pattern: /[\u3040-\u30FF]/, language: { code: "ja", name: "Japanese" } },
+  { pattern: /[\uAC00-\uD7AF]/, language: { code: "ko", name: "Korean" } },
+  { pattern: /[\u4E00-\u9FFF]/, language: { code: "zh", name: "Chinese" } },
+];
+
+// Common function words used to tell Latin-script languages apart
+const STOPWORDS: { language: Language; words: string[] }[] = [
+  { language: { code: "en", name: "English" }, words: ["the", "and", "of", "to", "shall", "in", "is", "this", "be", "by", "with", "any"] },
+  { language: { code: "es", name: "Spanish" }, words: ["el", "la", "de", "que", "y", "los", "las", "del", "por", "para", "con", "se"] },
+  { language: { code: "fr", name: "French" }, words: ["le", "la", "les", "de", "des", "et", "du", "que", "est", "pour", "dans", "une"] },
+  { language: { code: "de", name: "German" }, words: ["der", "die", "und", "das", "den", "ist", "nicht", "mit", "von", "zu", "des", "eine"] },
+  { language: { code: "it", name: "Italian" }, words: ["il", "di", "che", "e", "la", "per", "del", "della", "gli", "con", "sono", "alla"] },
+  { language: { code: "pt", name: "Portuguese" }, words: ["o", "de", "que", "e", "do", "da", "os", "em", "para", "com", "não", "pelo"] },
+  { language: { code: "nl", name: "Dutch" }, words: ["de", "het", "een", "en", "van", "dat", "niet", "voor", "op", "zijn", "met", "wordt"] },
+];
+
+// Characters sampled from the start of the document; plenty to decide, and cheap
+const SAMPLE_LENGTH = 5000;
+
+// Guess the dominant language of a text: by script for non-Latin writing
+// systems, otherwise by counting common function words.
+export function detectLanguage(text: string): DetectedLanguage {
+  const sample = text.slice(0, SAMPLE_LENGTH);
+  const letters = sample.match(/\p{L}/gu) || [];
+  if (letters.length === 0) return { ...UNDETERMINED, confidence: 0 };
+
+  // Count letters per script; kana beats Han so Japanese is not read as Chinese
+  const scriptCounts = SCRIPTS.map(({ pattern, language }) => ({
+    language,
+    count: letters.filter(letter => pattern.test(letter)).length,
+  }));
+  const kana = scriptCounts.find(entry => entry.language.code === "ja") as { count: number };
+  const bestScript = scriptCounts.reduce((best, entry) => (entry.count > best.count ? entry : best));
+  const nonLatinShare = scriptCounts.reduce((sum, entry) => sum + entry.count, 0) / letters.length;
+
+  if (nonLatinShare > 0.3) {
+    if (kana.count > 0 && bestScript.language.code === "zh") {
+      return { code: "ja", name: "Japanese", confidence: nonLatinShare };
+    }
+    return { ...bestScript.language, confidence: bestScript.count / letters.length };
+  }
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) || [];
+  const scores = STOPWORDS.map(({ language, words: stopwords }) => ({
+    language,
+    score: words.filter(word => stopwords.includes(word)).length,
+  }));
+  const total = scores.reduce((sum, entry) => sum + entry.score, 0);
+  const best = scores.reduce((top, entry) => (entry.score > top.score ? entry : top));
+
+  if (total === 0) return { ...UNDETERMINED, confidence: 0 };
+  return { ...best.language, confidence: best.score / total };
+}
+
+// Prompt line asking for the analysis in the given language
+export function outputLanguageInstruction(language: Language): string {
+  return `Write your entire response in ${language.name}. Keep quotations from the document in their original language.`;
+}
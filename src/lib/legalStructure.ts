@@ -0,0 +1,175 @@
+// src/lib/legalStructure.ts
+
+// Recognises the headings that structure legal documents (articles, numbered
+// sections and clauses, schedules, recitals and definitions) and tracks the
+// path of the provision each line belongs to, e.g. "Article 5 > 5.2(b)".
+
+type HeadingLevel = "part" | "section" | "clause" | "subclause";
+
+export interface Heading {
+  level: HeadingLevel;
+  label: string;
+}
+
+// Order of the levels in a path, outermost first
+const LEVELS: HeadingLevel[] = ["part", "section", "clause", "subclause"];
+
+const ROMAN = /^[ivxlcdm]+$/i;
+
+// Top-level divisions: "ARTICLE 5", "Article V - Payment", "SCHEDULE A", "Exhibit 2", "PART II"
+const PART_PATTERN = /^(article|schedule|annex|annexure|exhibit|appendix|part|chapter)\s+([0-9]+|[IVXLCDM]+|[A-Z])\b(?![.,]\d)/i;
+
+// Named sections: "Section 3", "SECTION 3.1", "Sec. 3.1", "§ 4"
+const SECTION_PATTERN = /^(?:section|sec\.|§)\s*(\d+(?:\.\d+)*)\b\.?/i;
+
+// Numbered clauses: "5.", "5)", "5.2", "5.2.1" followed by text starting with a
+// capital, a bracket or a quote. A bare "30 days" is not a clause.
+const CLAUSE_PATTERN = /^(\d{1,3}(?:\.\d{1,3})+|\d{1,3}[.)])\.?\s+(?=[\p{Lu}\p{Lo}("“])/u;
+
+// Sub-clauses: "(b)", "(iv)", "(A)" at the start of a line
+const SUBCLAUSE_PATTERN = /^\(([a-z]{1,2}|[ivxlcdm]{1,5}|[A-Z]|\d{1,2})\)\s+/;
+
+// Part headings sit on a line of their own; longer lines are references in body text
+const MAX_PART_HEADING_LENGTH = 120;
+
+// What may follow a part's label: nothing, or a title set off by a separator or
+// starting with a capital. "Part A of the agreement shall apply" is body text.
+const PART_TITLE_PATTERN = /^(?:[.:]?|\s*[-–—:.]\s*\S.*|\s+[\p{Lu}\p{N}("“].*)$/u;
+// Titles do not end like a sentence or a list item
+const SENTENCE_END = /[.;,]$/;
+
+// Recitals: a "RECITALS" / "BACKGROUND" heading, or paragraphs opening with "WHEREAS"
+const RECITALS_HEADING = /^(recitals|background|preamble)\s*:?$/i;
+const WHEREAS_PATTERN = /^whereas\b/i;
+
+// "NOW, THEREFORE" closes the recitals and opens the operative provisions
+const OPERATIVE_PATTERN = /^now,?\s+therefore\b/i;
+
+// Definitions: '"Affiliate" means ...', '“Term” shall have the meaning ...'
+const DEFINITION_PATTERN = /^["“]([^"”]{1,80})["”]\s+(?:means|shall mean|includes|shall include|has the meaning|shall have the meaning|refers to)\b/i;
+
+// Classify a single line of text. Returns null for ordinary body text.
+export function detectHeading(line: string): Heading | null {
+  const text = line.trim();
+  if (!text) return null;
+
+  let match = text.match(PART_PATTERN);
+  const partTitle = match ? text.slice(match[0].length) : "";
+  if (
+    match &&
+    text.length <= MAX_PART_HEADING_LENGTH &&
+    PART_TITLE_PATTERN.test(partTitle) &&
+    (partTitle.length <= 1 || !SENTENCE_END.test(partTitle))
+  ) {
+    const kind = match[1].charAt(0).toUpperCase() + match[1].slice(1).toLowerCase();
+    return { level: "part", label: `${kind} ${match[2]}` };
+  }
+
+  if (RECITALS_HEADING.test(text)) return { level: "part", label: "Recitals" };
+
+  match = text.match(SECTION_PATTERN);
+  if (match) return { level: "section", label: `Section ${match[1]}` };
+
+  match = text.match(CLAUSE_PATTERN);
+  if (match) return { level: "clause", label: match[1].replace(/[.)]$/, "") };
+
+  match = text.match(SUBCLAUSE_PATTERN);
+  if (match) return { level: "subclause", label: `(${match[1]})` };
+
+  match = text.match(DEFINITION_PATTERN);
+  if (match) return { level: "subclause", label: `"${match[1].trim()}"` };
+
+  return null;
+}
+
+// Follows headings through a document and reports the current path
+export function createPathTracker() {
+  const current: Partial<Record<HeadingLevel, string>> = {};
+  // Stack of sub-clause labels, so "(b)" then "(i)" gives "(b)(i)"
+  let subclauses: string[] = [];
+  let recitalCount = 0;
+
+  const clear = (level: HeadingLevel) => {
+    for (const inner of LEVELS.slice(LEVELS.indexOf(level))) delete current[inner];
+    subclauses = [];
+  };
+
+  const enterSubclause = (label: string) => {
+    const inner = label.slice(1, -1);
+    const romanItem = ROMAN.test(inner) && inner === inner.toLowerCase();
+
+    if (label.startsWith('"')) {
+      subclauses = [label];
+    } else if (subclauses.length > 1 && romanItem) {
+      // The next roman sub-item under the same letter: "(b)(i)" then "(b)(ii)"
+      subclauses = [subclauses[0], label];
+    } else if (subclauses.length === 1 && romanItem && /^\([a-z]\)$/.test(subclauses[0]) && subclauses[0] !== "(h)") {
+      // "(i)" after "(h)" is the next letter; after any other letter it is a roman sub-item
+      subclauses = [subclauses[0], label];
+    } else {
+      subclauses = [label];
+    }
+  };
+
+  return {
+    enter(heading: Heading) {
+      if (heading.level === "subclause") {
+        enterSubclause(heading.label);
+      } else {
+        clear(heading.level);
+        current[heading.level] = heading.label;
+      }
+    },
+
+    // Recitals have no labels of their own, so they are numbered as they appear
+    enterRecital() {
+      if (current.part !== "Recitals") {
+        clear("part");
+        current.part = "Recitals";
+        recitalCount = 0;
+      }
+      clear("section");
+      current.clause = `Recital ${++recitalCount}`;
+    },
+
+    // Leave the recitals when the operative provisions begin
+    leaveRecitals() {
+      if (current.part === "Recitals") clear("part");
+    },
+
+    path(): string[] {
+      const parts = [current.part, current.section].filter((part): part is string => Boolean(part));
+      const clause = current.clause;
+      if (clause) {
+        // Sub-clauses attach to their clause: "5.2(b)"; definitions and recitals get their own segment
+        if (subclauses.length > 0 && !subclauses[0].startsWith('"') && !clause.startsWith("Recital")) {
+          parts.push(clause + subclauses.join(""));
+        } else {
+          parts.push(clause, ...subclauses);
+        }
+      } else {
+        parts.push(...subclauses);
+      }
+      return parts;
+    },
+  };
+}
+
+// Classify a line and update the tracker; returns true when the line starts a new provision
+export function followLine(tracker: ReturnType<typeof createPathTracker>, line: string): boolean {
+  const text = line.trim();
+
+  if (WHEREAS_PATTERN.test(text)) {
+    tracker.enterRecital();
+    return true;
+  }
+  if (OPERATIVE_PATTERN.test(text)) {
+    tracker.leaveRecitals();
+    return true;
+  }
+
+  const heading = detectHeading(text);
+  if (!heading) return false;
+  tracker.enter(heading);
+  return true;
+}
@@ -0,0 +1,49 @@
+// src/lib/llm/gemini.ts
+
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { GenerationOptions, LlmProvider } from "./types";
+
+function toGenerationConfig({ json, ...options }: GenerationOptions) {
+  return {
+    ...options,
+    ...(json && { responseMimeType: "application/json" }),
+  };
+}
+
+export function createGeminiProvider(apiKey: string): LlmProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return {
+    async generate(model: string, prompt: string, options: GenerationOptions) {
+      const generativeModel = genAI.getGenerativeModel({
+        model,
+        generationConfig: toGenerationConfig(options),
+      });
+      const result = await generativeModel.generateContent(prompt);
+      return result.response.text();
+    },
+
+    async *generateStream(model: string, prompt: string, options: GenerationOptions) {
+      const generativeModel = genAI.getGenerativeModel({
+        model,
+        generationConfig: toGenerationConfig(options),
+      });
+      const result = await generativeModel.generateContentStream(prompt);
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) yield text;
+      }
+    },
+
+    async embed(model: string, texts: string[]) {
+      const embeddingModel = genAI.getGenerativeModel({ model });
+      const result = await embeddingModel.batchEmbedContents({
+        requests: texts.map(text => ({ content: { role: "user", parts: [{ text }] } })),
+      });
+      if (result.embeddings?.length !== texts.length || result.embeddings.some(embedding => !embedding.values)) {
+        throw new Error("Embedding response did not contain a vector for every text");
+      }
+      return result.embeddings.map(embedding => embedding.values);
+    },
+  };
+}
@@ -0,0 +1,159 @@
+// src/lib/llm/index.ts
+
+import { createGeminiProvider } from "./gemini";
+import { createLocalProvider } from "./local";
+import {
+  BatchEmbeddingResult,
+  EmbeddingResult,
+  GenerationOptions,
+  GenerationResult,
+  LlmProvider,
+  LlmUnavailableError,
+  ModelRef,
+  StreamingGenerationResult,
+} from "./types";
+import { RetryOptions, withRetry } from "./retry";
+
+export * from "./types";
+
+const DEFAULT_GENERATION_CHAIN = "gemini:gemini-1.5-flash,gemini:gemini-1.5-pro";
+const DEFAULT_EMBEDDING_MODEL = "gemini:text-embedding-004";
+const LOCAL_GENERATION_CHAIN = "local:stub";
+const LOCAL_EMBEDDING_MODEL = "local:hash-768";
+
+// The embedding model is retried on rate limits and outages before giving up
+const EMBEDDING_RETRY: RetryOptions = {
+  retries: Number(process.env.EMBEDDING_RETRIES ?? 4),
+  baseDelayMs: 1000,
+  maxDelayMs: 60000,
+};
+
+const providers = new Map<string, LlmProvider>();
+
+function getProvider(name: string): LlmProvider {
+  const existing = providers.get(name);
+  if (existing) return existing;
+
+  let provider: LlmProvider;
+  switch (name) {
+    case "gemini":
+      if (!process.env.GOOGLE_API_KEY) {
+        throw new Error("GOOGLE_API_KEY is not set");
+      }
+      provider = createGeminiProvider(process.env.GOOGLE_API_KEY);
+      break;
+    case "local":
+      provider = createLocalProvider();
+      break;
+    default:
+      throw new Error(`Unknown LLM provider '${name}'`);
+  }
+
+  providers.set(name, provider);
+  return provider;
+}
+
+// Parse a chain such as "gemini:gemini-1.5-flash,local:stub"
+export function parseChain(chain: string): ModelRef[] {
+  return chain
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(":");
+      return separator === -1
+        ? { provider: entry, model: entry }
+        : { provider: entry.slice(0, separator), model: entry.slice(separator + 1) };
+    });
+}
+
+// The generation chain comes from LLM_CHAIN; without a Google key the local
+// stub is used so the app works offline.
+export function getGenerationChain(): ModelRef[] {
+  return parseChain(
+    process.env.LLM_CHAIN || (process.env.GOOGLE_API_KEY ? DEFAULT_GENERATION_CHAIN : LOCAL_GENERATION_CHAIN)
+  );
+}
+
+// Documents and queries are embedded with one model, from EMBEDDING_MODEL.
+// Vectors from different models cannot be compared, so there is no fallback;
+// the first entry of the older EMBEDDING_CHAIN setting is still honoured.
+export function getEmbeddingModel(): ModelRef {
+  return parseChain(
+    process.env.EMBEDDING_MODEL ||
+      process.env.EMBEDDING_CHAIN ||
+      (process.env.GOOGLE_API_KEY ? DEFAULT_EMBEDDING_MODEL : LOCAL_EMBEDDING_MODEL)
+  )[0];
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Generate text with the first model in the chain that answers
+export async function generateText(prompt: string, options: GenerationOptions = {}): Promise<GenerationResult> {
+  const failures: { model: string; error: string }[] = [];
+
+  for (const ref of getGenerationChain()) {
+    try {
+      const text = await getProvider(ref.provider).generate(ref.model, prompt, options);
+      return { text, provider: ref.provider, model: ref.model, usedFallback: failures.length > 0 };
+    } catch (error) {
+      console.error(`Generation with ${ref.provider}:${ref.model} failed:`, error);
+      failures.push({ model: `${ref.provider}:${ref.model}`, error: describeError(error) });
+    }
+  }
+
+  throw new LlmUnavailableError("generation", failures);
+}
+
+// Stream text from the first model in the chain that starts answering. A model
+// only counts as failed if it errors before producing its first piece of text.
+export async function streamText(prompt: string, options: GenerationOptions = {}): Promise<StreamingGenerationResult> {
+  const failures: { model: string; error: string }[] = [];
+
+  for (const ref of getGenerationChain()) {
+    try {
+      const iterator = getProvider(ref.provider).generateStream(ref.model, prompt, options)[Symbol.asyncIterator]();
+      const first = await iterator.next();
+
+      const stream = (async function* () {
+        if (first.done) return;
+        yield first.value;
+        for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+          yield next.value;
+        }
+      })();
+
+      return { stream, provider: ref.provider, model: ref.model, usedFallback: failures.length > 0 };
+    } catch (error) {
+      console.error(`Streaming generation with ${ref.provider}:${ref.model} failed:`, error);
+      failures.push({ model: `${ref.provider}:${ref.model}`, error: describeError(error) });
+    }
+  }
+
+  throw new LlmUnavailableError("generation", failures);
+}
+
+// Embed a batch of texts with the embedding model. There is no fallback to
+// another model, whose vectors would not be comparable with those stored.
+export async function embedTexts(texts: string[]): Promise<BatchEmbeddingResult> {
+  const ref = getEmbeddingModel();
+  try {
+    const provider = getProvider(ref.provider);
+    const vectors = await withRetry(
+      () => provider.embed(ref.model, texts),
+      EMBEDDING_RETRY,
+      `Embedding with ${ref.provider}:${ref.model}`
+    );
+    return { vectors, provider: ref.provider, model: ref.model };
+  } catch (error) {
+    console.error(`Embedding with ${ref.provider}:${ref.model} failed:`, error);
+    throw new LlmUnavailableError("embedding", [{ model: `${ref.provider}:${ref.model}`, error: describeError(error) }]);
+  }
+}
+
+export async function embedText(text: string): Promise<EmbeddingResult> {
+  const { vectors, provider, model } = await embedTexts([text]);
+  return { values: vectors[0], provider, model };
+}
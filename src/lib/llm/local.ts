@@ -0,0 +1,61 @@
+// src/lib/llm/local.ts
+
+import type { GenerationOptions, LlmProvider } from "./types";
+
+// Matches the dimension of the production embedding model and Pinecone index
+export const LOCAL_EMBEDDING_DIMENSION = 768;
+
+// 32-bit FNV-1a hash, stable across runs and platforms
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+function embedLocally(text: string): number[] {
+  const values = new Array(LOCAL_EMBEDDING_DIMENSION).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+  for (const word of words) {
+    const wordHash = hash(word);
+    values[wordHash % LOCAL_EMBEDDING_DIMENSION] += wordHash & 0x80000000 ? -1 : 1;
+  }
+
+  const norm = Math.sqrt(values.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? values : values.map(value => value / norm);
+}
+
+// Deterministic stand-in for a real model, for offline development and tests.
+// Embeddings are hashed bags of words, so texts sharing vocabulary land close together.
+export function createLocalProvider(): LlmProvider {
+  const generate = async (model: string, prompt: string, options: GenerationOptions = {}) => {
+    // Structured requests get an empty JSON list, i.e. "nothing found"
+    if (options.json) return "[]";
+
+    // Echo the start of the document text the prompt was built around
+    const documentStart = prompt.search(/Document (Content|Excerpts):/);
+    const content = documentStart === -1 ? prompt : prompt.slice(prompt.indexOf(":", documentStart) + 1);
+    const excerpt = content.trim().slice(0, 500);
+
+    return `Offline response from local model "${model}". No AI analysis was performed.\n\nExcerpt:\n${excerpt}`;
+  };
+
+  return {
+    generate,
+
+    // Emit the canned response word by word so streaming paths can be exercised offline
+    async *generateStream(model: string, prompt: string, options: GenerationOptions) {
+      const text = await generate(model, prompt, options);
+      for (const piece of text.match(/\S+\s*/g) || []) {
+        yield piece;
+      }
+    },
+
+    async embed(_model: string, texts: string[]) {
+      return texts.map(embedLocally);
+    },
+  };
+}
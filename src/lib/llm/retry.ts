@@ -0,0 +1,88 @@
+// src/lib/llm/retry.ts
+
+// Retries for model calls that fail for passing reasons: rate limits, overload
+// and dropped connections. Waits double after each attempt unless the service
+// says how long to wait, through a Retry-After header or, for Google APIs, a
+// RetryInfo entry in the error details.
+
+export interface RetryOptions {
+  // Attempts after the first one
+  retries: number;
+  baseDelayMs: number;
+  // Longer waits than this are not worth it; the call fails straight away
+  maxDelayMs: number;
+}
+
+// HTTP statuses worth another try
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+interface ErrorWithResponse {
+  status?: number;
+  headers?: unknown;
+  response?: { status?: number; headers?: unknown };
+  errorDetails?: { "@type"?: string; retryDelay?: string }[];
+}
+
+function statusOf(error: unknown): number | undefined {
+  const { status, response } = (error || {}) as ErrorWithResponse;
+  return typeof status === "number" ? status : response?.status;
+}
+
+function headerValue(headers: unknown, name: string): string | null {
+  if (!headers) return null;
+  if (headers instanceof Headers) return headers.get(name);
+  const value = (headers as Record<string, unknown>)[name] ?? (headers as Record<string, unknown>)[name.toLowerCase()];
+  return typeof value === "string" ? value : null;
+}
+
+// A Retry-After value in milliseconds: either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+// How long the service asked the caller to wait, if it said
+export function requestedDelayMs(error: unknown): number | undefined {
+  const { headers, response, errorDetails } = (error || {}) as ErrorWithResponse;
+  const fromHeader = parseRetryAfter(
+    headerValue(headers, "Retry-After") ?? headerValue(response?.headers, "Retry-After")
+  );
+  if (fromHeader !== undefined) return fromHeader;
+
+  const retryInfo = Array.isArray(errorDetails)
+    ? errorDetails.find(detail => detail?.["@type"]?.endsWith("google.rpc.RetryInfo"))
+    : undefined;
+  const seconds = parseFloat(retryInfo?.retryDelay || "");
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+// Errors without a status are network failures and worth retrying too
+export function isRetryable(error: unknown): boolean {
+  const status = statusOf(error);
+  return status === undefined || RETRYABLE_STATUSES.has(status);
+}
+
+export async function withRetry<T>(
+  call: () => Promise<T>,
+  { retries, baseDelayMs, maxDelayMs }: RetryOptions,
+  label: string
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) throw error;
+
+      // Jitter keeps concurrent callers from retrying in lockstep
+      const backoff = baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      const delay = requestedDelayMs(error) ?? backoff;
+      if (delay > maxDelayMs) throw error;
+
+      console.warn(`${label} failed (attempt ${attempt + 1} of ${retries + 1}), retrying in ${Math.round(delay)}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
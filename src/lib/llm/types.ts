@@ -0,0 +1,59 @@
+// src/lib/llm/types.ts
+
+export interface GenerationOptions {
+  maxOutputTokens?: number;
+  temperature?: number;
+  // Ask the model to reply with a JSON document only
+  json?: boolean;
+}
+
+// One entry of a configured chain, e.g. "gemini:gemini-1.5-flash"
+export interface ModelRef {
+  provider: string;
+  model: string;
+}
+
+export interface LlmProvider {
+  generate(model: string, prompt: string, options: GenerationOptions): Promise<string>;
+  generateStream(model: string, prompt: string, options: GenerationOptions): AsyncIterable<string>;
+  // Embed several texts in one request, returning vectors in the same order
+  embed(model: string, texts: string[]): Promise<number[][]>;
+}
+
+export interface GenerationResult {
+  text: string;
+  provider: string;
+  model: string;
+  // True when an earlier model in the chain failed and a later one answered
+  usedFallback: boolean;
+}
+
+export interface StreamingGenerationResult {
+  stream: AsyncIterable<string>;
+  provider: string;
+  model: string;
+  usedFallback: boolean;
+}
+
+export interface EmbeddingResult {
+  values: number[];
+  provider: string;
+  model: string;
+}
+
+export interface BatchEmbeddingResult {
+  vectors: number[][];
+  provider: string;
+  model: string;
+}
+
+// Raised when every model in a chain has failed
+export class LlmUnavailableError extends Error {
+  failures: { model: string; error: string }[];
+
+  constructor(kind: string, failures: { model: string; error: string }[]) {
+    super(`All ${kind} models failed: ${failures.map(failure => `${failure.model} (${failure.error})`).join("; ")}`);
+    this.name = "LlmUnavailableError";
+    this.failures = failures;
+  }
+}
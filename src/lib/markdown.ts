@@ -0,0 +1,338 @@
+// src/lib/markdown.ts
+
+// A small Markdown reader for model output: headings, paragraphs, nested
+// lists, quotes, code blocks, tables and inline emphasis, code and links.
+// Nothing is ever rendered as HTML, and links keep only http(s) and mailto
+// targets, so the result is safe to show whatever the model wrote. Every line
+// of text records where it sits in the document's plain text, which is what
+// is read aloud, so the sentence being spoken can be marked in the rendering.
+
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
+// One line of rendered text and its position in the plain text
+export interface TextLine {
+  runs: InlineRun[];
+  offset: number;
+}
+
+export interface MarkdownList {
+  ordered: boolean;
+  start: number;
+  items: MarkdownListItem[];
+}
+
+export interface MarkdownListItem {
+  line: TextLine;
+  children?: MarkdownList;
+}
+
+export type MarkdownBlock =
+  | { type: "heading"; level: number; line: TextLine }
+  | { type: "paragraph"; line: TextLine }
+  | { type: "quote"; line: TextLine }
+  | { type: "code"; line: TextLine }
+  | { type: "list"; list: MarkdownList }
+  | { type: "table"; header: TextLine[]; rows: TextLine[][] }
+  | { type: "rule" };
+
+export interface MarkdownDocument {
+  blocks: MarkdownBlock[];
+  // The text without Markdown syntax, one line per heading, paragraph, list
+  // item or table cell
+  text: string;
+}
+
+// A top-level heading and everything up to the next one. Text before the
+// first heading forms a section without a heading.
+export interface MarkdownSection {
+  heading?: Extract<MarkdownBlock, { type: "heading" }>;
+  blocks: MarkdownBlock[];
+  // Range of the section in the plain text, end exclusive
+  start: number;
+  end: number;
+}
+
+const SAFE_LINK = /^(https?:\/\/|mailto:)/i;
+
+// Delimiters that may close an emphasis opened at `from`: not preceded by a space
+function findClosing(text: string, marker: string, from: number): number {
+  let index = text.indexOf(marker, from);
+  while (index !== -1 && (index === from || /\s/.test(text[index - 1]))) {
+    index = text.indexOf(marker, index + 1);
+  }
+  return index;
+}
+
+function parseInline(text: string, style: Omit<InlineRun, "text"> = {}): InlineRun[] {
+  const runs: InlineRun[] = [];
+  let plain = "";
+
+  const flush = () => {
+    if (plain) runs.push({ ...style, text: plain });
+    plain = "";
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const character = text[index];
+    const rest = text.slice(index);
+
+    if (character === "\\" && index + 1 < text.length && /[\\`*_[\]()#+\-.!>|~]/.test(text[index + 1])) {
+      plain += text[++index];
+      continue;
+    }
+
+    if (character === "`") {
+      const end = text.indexOf("`", index + 1);
+      if (end > index + 1) {
+        flush();
+        runs.push({ ...style, code: true, text: text.slice(index + 1, end) });
+        index = end;
+        continue;
+      }
+    }
+
+    if (character === "[") {
+      const link = rest.match(/^\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)(?:\s+"[^"]*")?\)/);
+      if (link) {
+        flush();
+        const href = SAFE_LINK.test(link[2]) ? link[2] : undefined;
+        runs.push(...parseInline(link[1], { ...style, ...(href && { href }) }));
+        index += link[0].length - 1;
+        continue;
+      }
+    }
+
+    const strong = rest.startsWith("**") ? "**" : rest.startsWith("__") ? "__" : null;
+    if (strong && text[index + 2] && !/\s/.test(text[index + 2])) {
+      const end = findClosing(text, strong, index + 2);
+      if (end !== -1) {
+        flush();
+        runs.push(...parseInline(text.slice(index + 2, end), { ...style, bold: true }));
+        index = end + 1;
+        continue;
+      }
+    }
+
+    // Underscores inside words ("notice_period") are not emphasis
+    const emphasis = (character === "*" || (character === "_" && !/[\p{L}\p{N}]/u.test(text[index - 1] || "")))
+      && text[index + 1] && !/\s/.test(text[index + 1]);
+    if (emphasis) {
+      const end = findClosing(text, character, index + 1);
+      if (end !== -1 && !(character === "_" && /[\p{L}\p{N}]/u.test(text[end + 1] || ""))) {
+        flush();
+        runs.push(...parseInline(text.slice(index + 1, end), { ...style, italic: true }));
+        index = end;
+        continue;
+      }
+    }
+
+    plain += character;
+  }
+
+  flush();
+  return runs;
+}
+
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+•]|\d{1,9}[.)])\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const FENCE = /^\s{0,3}(```|~~~)/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+function tableCells(line: string): string[] {
+  return line.trim().replace(/^\|/, "").replace(/\|\s*$/, "").split(/(?<!\\)\|/).map(cell => cell.trim());
+}
+
+// Nested lists from consecutive list lines, by indentation
+function parseList(lines: { indent: number; marker: string; text: string }[]): MarkdownList {
+  const listFor = (marker: string): MarkdownList => ({
+    ordered: /\d/.test(marker),
+    start: parseInt(marker, 10) || 1,
+    items: [],
+  });
+
+  const root = listFor(lines[0].marker);
+  const stack: { indent: number; list: MarkdownList }[] = [{ indent: lines[0].indent, list: root }];
+
+  for (const line of lines) {
+    while (stack.length > 1 && line.indent < stack[stack.length - 1].indent) stack.pop();
+    const current = stack[stack.length - 1];
+    const parent = current.list.items[current.list.items.length - 1];
+
+    if (line.indent > current.indent + 1 && parent) {
+      parent.children = parent.children || listFor(line.marker);
+      stack.push({ indent: line.indent, list: parent.children });
+    }
+
+    stack[stack.length - 1].list.items.push({ line: { runs: parseInline(line.text), offset: 0 } });
+  }
+
+  return root;
+}
+
+const lineText = (line: TextLine) => line.runs.map(run => run.text).join("");
+
+// Every line of text in reading order
+function linesOf(block: MarkdownBlock): TextLine[] {
+  switch (block.type) {
+    case "list": {
+      const fromList = (list: MarkdownList): TextLine[] =>
+        list.items.flatMap(item => [item.line, ...(item.children ? fromList(item.children) : [])]);
+      return fromList(block.list);
+    }
+    case "table":
+      return [...block.header, ...block.rows.flat()];
+    case "rule":
+      return [];
+    default:
+      return [block.line];
+  }
+}
+
+export function parseMarkdown(markdown: string): MarkdownDocument {
+  const blocks: MarkdownBlock[] = [];
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  let paragraph: string[] = [];
+  let listLines: { indent: number; marker: string; text: string }[] = [];
+
+  const line = (text: string): TextLine => ({ runs: parseInline(text), offset: 0 });
+
+  const endParagraph = () => {
+    if (paragraph.length) blocks.push({ type: "paragraph", line: line(paragraph.join(" ")) });
+    paragraph = [];
+  };
+  const endList = () => {
+    if (listLines.length) blocks.push({ type: "list", list: parseList(listLines) });
+    listLines = [];
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const raw = lines[index];
+
+    if (!raw.trim()) {
+      endParagraph();
+      // A blank line between items keeps the list going
+      if (!LIST_ITEM.test(lines[index + 1] || "")) endList();
+      continue;
+    }
+
+    const fence = raw.match(FENCE);
+    if (fence) {
+      endParagraph();
+      endList();
+      const code: string[] = [];
+      while (++index < lines.length && !lines[index].trim().startsWith(fence[1])) code.push(lines[index]);
+      blocks.push({ type: "code", line: { runs: [{ text: code.join("\n"), code: true }], offset: 0 } });
+      continue;
+    }
+
+    const heading = raw.match(HEADING);
+    if (heading) {
+      endParagraph();
+      endList();
+      blocks.push({ type: "heading", level: heading[1].length, line: line(heading[2]) });
+      continue;
+    }
+
+    if (RULE.test(raw)) {
+      endParagraph();
+      endList();
+      blocks.push({ type: "rule" });
+      continue;
+    }
+
+    const item = raw.match(LIST_ITEM);
+    if (item) {
+      endParagraph();
+      // A numbered list straight after a bulleted one (or the other way round) is a new list
+      const first = listLines[0];
+      if (first && item[1].length <= first.indent && /\d/.test(item[2]) !== /\d/.test(first.marker)) endList();
+      listLines.push({ indent: item[1].replace(/\t/g, "    ").length, marker: item[2], text: item[3] });
+      continue;
+    }
+
+    // Indented text under a list item continues the item
+    if (listLines.length && /^\s{2,}/.test(raw)) {
+      listLines[listLines.length - 1].text += ` ${raw.trim()}`;
+      continue;
+    }
+
+    const quote = raw.match(QUOTE);
+    if (quote) {
+      endParagraph();
+      endList();
+      const previous = blocks[blocks.length - 1];
+      if (previous?.type === "quote" && QUOTE.test(lines[index - 1] || "")) {
+        previous.line = line(`${lineText(previous.line)} ${quote[1].trim()}`);
+      } else {
+        blocks.push({ type: "quote", line: line(quote[1]) });
+      }
+      continue;
+    }
+
+    if (raw.includes("|") && TABLE_SEPARATOR.test(lines[index + 1] || "")) {
+      endParagraph();
+      endList();
+      const header = tableCells(raw).map(line);
+      const rows: TextLine[][] = [];
+      index++;
+      while (index + 1 < lines.length && lines[index + 1].includes("|") && lines[index + 1].trim()) {
+        rows.push(tableCells(lines[++index]).map(line));
+      }
+      blocks.push({ type: "table", header, rows });
+      continue;
+    }
+
+    endList();
+    paragraph.push(raw.trim());
+  }
+
+  endParagraph();
+  endList();
+
+  // Lay the lines end to end, one per line of plain text
+  let offset = 0;
+  const text: string[] = [];
+  for (const textLine of blocks.flatMap(linesOf)) {
+    textLine.offset = offset;
+    const value = lineText(textLine);
+    text.push(value);
+    offset += value.length + 1;
+  }
+
+  return { blocks, text: text.join("\n") };
+}
+
+// The text to read aloud, without Markdown syntax
+export function stripMarkdown(markdown: string): string {
+  return parseMarkdown(markdown).text;
+}
+
+// Group blocks under the highest-level headings present
+export function splitSections(document: MarkdownDocument): MarkdownSection[] {
+  const levels = document.blocks.flatMap(block => (block.type === "heading" ? [block.level] : []));
+  const topLevel = Math.min(...levels);
+  const sections: MarkdownSection[] = [];
+
+  for (const block of document.blocks) {
+    if (block.type === "heading" && block.level === topLevel) {
+      sections.push({ heading: block, blocks: [], start: block.line.offset, end: block.line.offset });
+      continue;
+    }
+    if (!sections.length) sections.push({ blocks: [], start: 0, end: 0 });
+    sections[sections.length - 1].blocks.push(block);
+  }
+
+  // Each section runs up to the start of the next
+  sections.forEach((section, index) => {
+    section.end = sections[index + 1]?.start ?? document.text.length;
+  });
+  return sections;
+}
@@ -0,0 +1,277 @@
+// src/lib/playbookComparison.ts
+
+// Playbooks and the structured output of comparing a contract against one. A
+// playbook is a list of standard positions ("rules"), written by hand or read
+// from an uploaded document.
+
+export const COMPARISON_SCHEMA_VERSION = "1.1";
+
+// How the contract stands against a rule: it departs from the position, does not
+// address it at all, asks for more than the position, or is consistent with it.
+// A rule is "not-assessed" when no clause addressing it was found but parts of
+// the contract went unread, so it cannot be called omitted.
+export const COMPARISON_STATUSES = ["deviates", "omits", "not-assessed", "goes-beyond", "matches"] as const;
+
+export type ComparisonStatus = (typeof COMPARISON_STATUSES)[number];
+
+export const STATUS_ORDER: Record<ComparisonStatus, number> = {
+  deviates: 0,
+  omits: 1,
+  "not-assessed": 2,
+  "goes-beyond": 3,
+  matches: 4,
+};
+
+export const STATUS_LABELS: Record<ComparisonStatus, string> = {
+  deviates: "Deviates",
+  omits: "Omitted",
+  "not-assessed": "Not assessed",
+  "goes-beyond": "Goes beyond",
+  matches: "Matches",
+};
+
+export interface PlaybookRule {
+  // Short label such as "R3", quoted back by the model
+  id: string;
+  topic: string;
+  // Our standard position on the topic
+  position: string;
+}
+
+export interface Playbook {
+  id: string;
+  name: string;
+  rules: PlaybookRule[];
+  // The uploaded document the rules were read from, if any
+  sourceFileName?: string;
+  createdAt: string;
+}
+
+export interface ComparisonFinding {
+  // Null for contract terms the playbook has no rule for
+  ruleId: string | null;
+  topic: string;
+  status: ComparisonStatus;
+  // The playbook's position, copied so the finding reads on its own
+  position?: string;
+  // Exact words of the contract clause; missing when the rule is omitted
+  clause?: string;
+  chunkIndex?: number;
+  // Section, clause and page label from the chunk metadata, e.g. "Section: Article 5 | Page 3"
+  location?: string;
+  explanation: string;
+  suggestion?: string;
+  quoteVerified?: boolean;
+}
+
+export interface PlaybookComparison {
+  schemaVersion: string;
+  playbookId: string;
+  playbookName: string;
+  findings: ComparisonFinding[];
+}
+
+export const PLAYBOOK_LIMITS = {
+  name: 80,
+  rules: 60,
+  topic: 80,
+  position: 1500,
+  // Characters of pasted rules or extracted playbook text
+  text: 40000,
+};
+
+// Numbering and bullets in front of a rule, e.g. "1.", "(a)", "-", "•"
+const LIST_MARKER = /^(?:[-*•]\s+|\(?\d+(?:\.\d+)*[.)]\s+|\(?[a-z][.)]\s+)/i;
+
+// A short line on its own, without sentence punctuation, reads like a heading
+// rather than a rule; list items are always rules
+function isHeading(block: string): boolean {
+  return !LIST_MARKER.test(block) && !block.includes("\n") && block.length <= PLAYBOOK_LIMITS.topic && !/[.;,:]/.test(block);
+}
+
+// Topic for a rule that has none: its first few words
+function topicFromPosition(position: string): string {
+  const words = position.split(/\s+/).slice(0, 6).join(" ").replace(/[.;,:]+$/, "");
+  return words.length < position.length ? `${words}…` : words;
+}
+
+// Split pasted rules or the text of a playbook document into rules. Each
+// paragraph or list item is one rule; "Topic: position" sets the topic
+// explicitly, and a short heading line is used as the topic of the rules
+// beneath it.
+export function parsePlaybookRules(text: string): PlaybookRule[] {
+  const blocks = text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n|\n(?=\s*(?:[-*•]|\(?\d+(?:\.\d+)*[.)]|\(?[a-z][.)])\s)/i)
+    .map(block => block.trim().replace(/[^\S\n]+/g, " "))
+    .filter(Boolean);
+
+  const rules: PlaybookRule[] = [];
+  let heading: string | null = null;
+
+  for (const block of blocks) {
+    if (isHeading(block)) {
+      heading = block;
+      continue;
+    }
+
+    const item = block.replace(LIST_MARKER, "");
+    const labelled = item.match(/^([^:\n]{2,80}):\s+([\s\S]+)$/);
+    const topic = labelled ? labelled[1].trim() : heading || topicFromPosition(item);
+    const position = (labelled ? labelled[2] : item).replace(/\s*\n\s*/g, " ").trim();
+
+    rules.push({
+      id: `R${rules.length + 1}`,
+      topic: topic.slice(0, PLAYBOOK_LIMITS.topic),
+      position: position.slice(0, PLAYBOOK_LIMITS.position),
+    });
+    if (rules.length === PLAYBOOK_LIMITS.rules) break;
+  }
+
+  return rules;
+}
+
+export const playbookComparisonPrompt = `You are a contract reviewer comparing a contract against our playbook of standard positions. For each playbook rule that the excerpts below address, decide whether the contract:
+- "matches": is consistent with our standard position
+- "deviates": departs from or weakens our standard position
+- "goes-beyond": asks more of us, or grants more, than our standard position
+
+Also report contract terms that no rule covers but that a reviewer should know about, with "ruleId": null and status "goes-beyond". Do not report rules the excerpts do not address; omissions are worked out across the whole contract.
+
+Respond with JSON only, no prose and no code fences, in exactly this shape:
+{"findings": [{"ruleId": "<rule id such as R1, or null>", "status": "matches" | "deviates" | "goes-beyond", "topic": "<short topic, for terms no rule covers>", "clause": "<exact words copied from the contract>", "chunkIndex": <number from the [Chunk N] label the clause appears under>, "explanation": "<how the clause compares with our position, in plain English>", "suggestion": "<what to ask for in negotiation, or an empty string when it matches>"}]}
+
+Quote the clause word for word from a single excerpt. Return {"findings": []} if the excerpts address none of the rules.`;
+
+// The playbook rules as the model sees them, appended to the instructions
+export function formatPlaybookRules(rules: PlaybookRule[]): string {
+  return `Playbook rules:\n${rules.map(rule => `${rule.id}. ${rule.topic}: ${rule.position}`).join("\n")}`;
+}
+
+function normalise(text: string): string {
+  return text.toLowerCase().replace(/[\s"'“”‘’]+/g, " ").trim();
+}
+
+function nonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+// Parse and validate the findings for one part of the contract. Findings that
+// cite an unknown rule or chunk are dropped; output that is not JSON at all
+// raises an error.
+export function parsePlaybookFindings(text: string, chunks: Map<number, string>, rules: PlaybookRule[]): ComparisonFinding[] {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  const parsed = JSON.parse(json);
+  const items: unknown[] = Array.isArray(parsed) ? parsed : parsed?.findings;
+
+  if (!Array.isArray(items)) {
+    throw new Error("Playbook comparison is missing a findings array");
+  }
+
+  const findings: ComparisonFinding[] = [];
+  for (const item of items) {
+    if (typeof item !== "object" || item === null) continue;
+    const candidate = item as Record<string, unknown>;
+
+    const status = String(candidate.status).toLowerCase() as ComparisonStatus;
+    const ruleId = nonEmptyString(candidate.ruleId) ? candidate.ruleId.trim().toUpperCase() : null;
+    const rule = ruleId ? rules.find(entry => entry.id === ruleId) : undefined;
+    const chunkIndex = Number(candidate.chunkIndex);
+
+    if (
+      !COMPARISON_STATUSES.includes(status) ||
+      status === "omits" ||
+      status === "not-assessed" ||
+      (ruleId !== null && !rule) ||
+      (ruleId === null && (status !== "goes-beyond" || !nonEmptyString(candidate.topic))) ||
+      !nonEmptyString(candidate.clause) ||
+      !nonEmptyString(candidate.explanation) ||
+      !chunks.has(chunkIndex)
+    ) {
+      console.warn("Dropping invalid playbook finding:", candidate);
+      continue;
+    }
+
+    findings.push({
+      ruleId: rule ? rule.id : null,
+      topic: rule ? rule.topic : (candidate.topic as string).trim(),
+      status,
+      ...(rule && { position: rule.position }),
+      clause: candidate.clause.trim(),
+      chunkIndex,
+      explanation: candidate.explanation.trim(),
+      ...(nonEmptyString(candidate.suggestion) && { suggestion: candidate.suggestion.trim() }),
+      quoteVerified: normalise(chunks.get(chunkIndex) as string).includes(normalise(candidate.clause)),
+    });
+  }
+
+  return findings;
+}
+
+// Combine the findings from every part of the contract into one report, in
+// playbook order. A rule no part of the contract addressed is reported as
+// omitted, or as not assessed when `complete` is false because some of the
+// contract was not analysed; terms outside the playbook come last, in document order.
+export function mergePlaybookFindings(parts: ComparisonFinding[][], rules: PlaybookRule[], complete: boolean): ComparisonFinding[] {
+  const all = parts.flat();
+  const merged: ComparisonFinding[] = [];
+
+  for (const rule of rules) {
+    const findings = all
+      .filter(finding => finding.ruleId === rule.id)
+      .sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || (a.chunkIndex ?? 0) - (b.chunkIndex ?? 0));
+
+    if (findings.length === 0 && !complete) {
+      merged.push({
+        ruleId: rule.id,
+        topic: rule.topic,
+        status: "not-assessed",
+        position: rule.position,
+        explanation: "No clause on this point was found, but parts of the contract could not be analysed.",
+        suggestion: "Check the contract for this point, or run the comparison again.",
+      });
+    } else if (findings.length === 0) {
+      merged.push({
+        ruleId: rule.id,
+        topic: rule.topic,
+        status: "omits",
+        position: rule.position,
+        explanation: "The contract does not appear to address this point.",
+        suggestion: "Ask for a clause reflecting our standard position.",
+      });
+    } else {
+      merged.push(...findings);
+    }
+  }
+
+  merged.push(...all.filter(finding => finding.ruleId === null).sort((a, b) => (a.chunkIndex ?? 0) - (b.chunkIndex ?? 0)));
+  return merged;
+}
+
+// Plain-text rendering used for the result card text and text-to-speech
+export function formatPlaybookComparison(comparison: PlaybookComparison): string {
+  const { findings } = comparison;
+  if (findings.length === 0) {
+    return `Nothing to compare against the "${comparison.playbookName}" playbook.`;
+  }
+
+  const counts = COMPARISON_STATUSES
+    .map(status => ({ status, count: findings.filter(finding => finding.status === status).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ status, count }) => `${count} ${STATUS_LABELS[status].toLowerCase()}`);
+  const lines = [`Compared against the "${comparison.playbookName}" playbook: ${counts.join(", ")}.`, ""];
+
+  findings.forEach((finding, index) => {
+    const rule = finding.ruleId ? `${finding.ruleId} ` : "";
+    lines.push(`${index + 1}. ${rule}${finding.topic} (${STATUS_LABELS[finding.status].toLowerCase()}): ${finding.explanation}`);
+    if (finding.position) lines.push(`Standard position: ${finding.position}`);
+    if (finding.clause) {
+      const where = finding.location || `chunk ${finding.chunkIndex}`;
+      lines.push(`Contract (${where}): "${finding.clause}"`);
+    }
+    if (finding.suggestion) lines.push(`Suggestion: ${finding.suggestion}`);
+    lines.push("");
+  });
+
+  return lines.join("\n").trim();
+}
@@ -0,0 +1,44 @@
+// src/lib/playbooks.ts
+
+import { randomUUID } from "crypto";
+import { readJson, toStorageKey, withFileLock, writeJson } from "./storage";
+import type { Playbook, PlaybookRule } from "./playbookComparison";
+
+// Playbooks are private to the user who added them, kept in one file per user
+
+function playbooksPath(ownerId: string): string {
+  return `playbooks/${toStorageKey(ownerId)}.json`;
+}
+
+// Every playbook of the user, oldest first
+export async function listPlaybooks(ownerId: string): Promise<Playbook[]> {
+  return readJson<Playbook[]>(playbooksPath(ownerId), []);
+}
+
+export async function getPlaybook(ownerId: string, playbookId: string): Promise<Playbook | null> {
+  return (await listPlaybooks(ownerId)).find(playbook => playbook.id === playbookId) || null;
+}
+
+export async function createPlaybook(
+  ownerId: string,
+  playbook: { name: string; rules: PlaybookRule[]; sourceFileName?: string }
+): Promise<Playbook> {
+  const stored: Playbook = { ...playbook, id: randomUUID(), createdAt: new Date().toISOString() };
+  const path = playbooksPath(ownerId);
+  await withFileLock(path, async () => writeJson(path, [...(await listPlaybooks(ownerId)), stored]));
+  return stored;
+}
+
+// Resolves to the removed playbook, or null when the user has none with that id
+export async function deletePlaybook(ownerId: string, playbookId: string): Promise<Playbook | null> {
+  const path = playbooksPath(ownerId);
+  return withFileLock(path, async () => {
+    const playbooks = await listPlaybooks(ownerId);
+    const index = playbooks.findIndex(playbook => playbook.id === playbookId);
+    if (index === -1) return null;
+
+    const [removed] = playbooks.splice(index, 1);
+    await writeJson(path, playbooks);
+    return removed;
+  });
+}
@@ -0,0 +1,151 @@
+// src/lib/riskAssessment.ts
+
+// Structured output for the "risks" analysis.
+
+export const RISK_SCHEMA_VERSION = "1.0";
+
+export const RISK_SEVERITIES = ["HIGH", "MEDIUM", "LOW"] as const;
+
+export const RISK_CATEGORIES = [
+  "financial",
+  "liability",
+  "termination",
+  "compliance",
+  "dispute",
+  "intellectual-property",
+  "confidentiality",
+  "missing-protection",
+  "other",
+] as const;
+
+export type RiskSeverity = (typeof RISK_SEVERITIES)[number];
+export type RiskCategory = (typeof RISK_CATEGORIES)[number];
+
+export interface RiskItem {
+  severity: RiskSeverity;
+  category: RiskCategory;
+  // Exact text of the clause, quoted from the document
+  clause: string;
+  chunkIndex: number;
+  explanation: string;
+  mitigation: string;
+  // False when the quoted clause could not be found in the cited chunk
+  quoteVerified: boolean;
+}
+
+export interface RiskAssessment {
+  schemaVersion: string;
+  risks: RiskItem[];
+}
+
+// JSON Schema describing RiskAssessment, published for other tools
+export const riskAssessmentSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "RiskAssessment",
+  type: "object",
+  required: ["schemaVersion", "risks"],
+  properties: {
+    schemaVersion: { type: "string", const: RISK_SCHEMA_VERSION },
+    risks: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["severity", "category", "clause", "chunkIndex", "explanation", "mitigation", "quoteVerified"],
+        properties: {
+          severity: { type: "string", enum: RISK_SEVERITIES },
+          category: { type: "string", enum: RISK_CATEGORIES },
+          clause: { type: "string", minLength: 1 },
+          chunkIndex: { type: "integer", minimum: 0 },
+          explanation: { type: "string", minLength: 1 },
+          mitigation: { type: "string", minLength: 1 },
+          quoteVerified: { type: "boolean" },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+  additionalProperties: false,
+} as const;
+
+export const riskPrompt = `You are a legal risk analyst. Identify the potential risks and red flags in this legal document: financial risks and liabilities, legal vulnerabilities, unfavorable terms, likely disputes, and missing protections or safeguards.
+
+Respond with JSON only, no prose and no code fences, in exactly this shape:
+{"risks": [{"severity": "HIGH" | "MEDIUM" | "LOW", "category": one of ${RISK_CATEGORIES.map(category => `"${category}"`).join(", ")}, "clause": "<exact words copied from the document>", "chunkIndex": <number from the [Chunk N] label the clause appears under>, "explanation": "<why this is a risk, in plain English>", "mitigation": "<what the reader could do about it>"}]}
+
+Quote the clause word for word from a single excerpt. For a missing protection, quote the clause where it would be expected. Return {"risks": []} if there are no risks.`;
+
+export const SEVERITY_ORDER: Record<RiskSeverity, number> = { HIGH: 0, MEDIUM: 1, LOW: 2 };
+
+function normalise(text: string): string {
+  return text.toLowerCase().replace(/[\s"'“”‘’]+/g, " ").trim();
+}
+
+function nonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+// Parse and validate model output. Items that do not match the schema are dropped;
+// output that is not JSON at all raises an error.
+export function parseRiskAssessment(text: string, chunks: Map<number, string>): RiskItem[] {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  const parsed = JSON.parse(json);
+  const items: unknown[] = Array.isArray(parsed) ? parsed : parsed?.risks;
+
+  if (!Array.isArray(items)) {
+    throw new Error("Risk assessment is missing a risks array");
+  }
+
+  const risks: RiskItem[] = [];
+  for (const item of items) {
+    if (typeof item !== "object" || item === null) continue;
+    const candidate = item as Record<string, unknown>;
+
+    const severity = String(candidate.severity).toUpperCase() as RiskSeverity;
+    const category = (RISK_CATEGORIES as readonly string[]).includes(String(candidate.category))
+      ? (candidate.category as RiskCategory)
+      : "other";
+    const chunkIndex = Number(candidate.chunkIndex);
+
+    if (
+      !RISK_SEVERITIES.includes(severity) ||
+      !nonEmptyString(candidate.clause) ||
+      !nonEmptyString(candidate.explanation) ||
+      !nonEmptyString(candidate.mitigation) ||
+      !chunks.has(chunkIndex)
+    ) {
+      console.warn("Dropping invalid risk item:", candidate);
+      continue;
+    }
+
+    risks.push({
+      severity,
+      category,
+      clause: candidate.clause.trim(),
+      chunkIndex,
+      explanation: candidate.explanation.trim(),
+      mitigation: candidate.mitigation.trim(),
+      quoteVerified: normalise(chunks.get(chunkIndex) as string).includes(normalise(candidate.clause)),
+    });
+  }
+
+  return risks.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+// Plain-text rendering used for the result card text and text-to-speech
+export function formatRiskAssessment(risks: RiskItem[]): string {
+  if (risks.length === 0) {
+    return "No significant risks were identified in this document.";
+  }
+
+  const counts = RISK_SEVERITIES.map(severity => `${risks.filter(risk => risk.severity === severity).length} ${severity.toLowerCase()}`);
+  const lines = [`${risks.length} risks identified (${counts.join(", ")}).`, ""];
+
+  risks.forEach((risk, index) => {
+    lines.push(`${index + 1}. ${risk.severity} risk (${risk.category}): ${risk.explanation}`);
+    lines.push(`Clause (chunk ${risk.chunkIndex}): "${risk.clause}"`);
+    lines.push(`Mitigation: ${risk.mitigation}`);
+    lines.push("");
+  });
+
+  return lines.join("\n").trim();
+}
@@ -0,0 +1,170 @@
+// src/lib/search.ts
+
+import { ChunkLocation, describeChunkLocation } from "./chunking";
+import { ownedBy, vectorIdPrefix } from "./documents";
+import { LlmUnavailableError, embedText } from "./llm";
+import { IndexedChunk, Token, getSearchIndex, termFrequency, tokenize } from "./searchIndex";
+import { getVectorStore } from "./vectorStore";
+import type { TextRange } from "./sentences";
+
+// Search across all of a user's documents. Chunks are ranked by BM25 over
+// their words and by vector similarity to the query, so exact terms such as
+// "indemnity cap" are found as well as passages that say the same thing in
+// other words.
+
+export interface SearchResult {
+  documentId: string;
+  fileName: string;
+  chunkIndex: number;
+  totalChunks: number;
+  // Section, clauses and pages, e.g. "Section: 9. Liability | Page 4"
+  location: string;
+  pageStart?: number;
+  pageEnd?: number;
+  section?: string;
+  // Part of the chunk around the best match, with the matching words marked
+  snippet: string;
+  highlights: TextRange[];
+  score: number;
+  keywordScore: number;
+  semanticScore: number;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  // False when the query could not be embedded and only keywords were matched
+  semantic: boolean;
+}
+
+export const MAX_SEARCH_RESULTS = 50;
+
+// Share of the combined score given to keyword matches; the rest is similarity
+const KEYWORD_WEIGHT = 0.5;
+// Chunks fetched from the vector store per result asked for
+const SEMANTIC_CANDIDATES_PER_RESULT = 3;
+// BM25 term saturation and length normalisation
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const SNIPPET_CHARS = 240;
+// Characters of context kept before the first match in a snippet
+const SNIPPET_LEAD = 60;
+
+// BM25 score of every chunk containing at least one query term
+function keywordScores(chunks: IndexedChunk[], terms: string[]): Map<string, number> {
+  const averageLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0) / (chunks.length || 1);
+  const scores = new Map<string, number>();
+
+  for (const term of terms) {
+    const containing = chunks.filter(chunk => termFrequency(chunk, term) > 0);
+    if (containing.length === 0) continue;
+    const idf = Math.log(1 + (chunks.length - containing.length + 0.5) / (containing.length + 0.5));
+
+    for (const chunk of containing) {
+      const frequency = termFrequency(chunk, term);
+      const lengthRatio = chunk.length / (averageLength || 1);
+      const weight = (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio));
+      scores.set(chunk.id, (scores.get(chunk.id) || 0) + idf * weight);
+    }
+  }
+  return scores;
+}
+
+// Similarity of the closest chunks to the query, or null if it cannot be embedded
+async function semanticScores(ownerId: string, query: string, topK: number): Promise<Map<string, number> | null> {
+  try {
+    const { values } = await embedText(query);
+    const matches = await getVectorStore().query({ vector: values, topK, filter: ownedBy(ownerId) });
+    return new Map(matches.map(match => [match.id, Math.max(match.score, 0)]));
+  } catch (error) {
+    if (!(error instanceof LlmUnavailableError)) throw error;
+    console.error("Search query could not be embedded, matching keywords only:", error);
+    return null;
+  }
+}
+
+// The window of the chunk holding the most distinct query terms, with those terms marked
+function buildSnippet(content: string, tokens: Token[], terms: Set<string>): { snippet: string; highlights: TextRange[] } {
+  const matches = tokens.filter(token => terms.has(token.term));
+
+  let from = 0;
+  let best = -1;
+  for (const match of matches) {
+    const start = Math.max(match.start - SNIPPET_LEAD, 0);
+    const distinct = new Set(
+      matches.filter(other => other.start >= start && other.end <= start + SNIPPET_CHARS).map(other => other.term)
+    ).size;
+    if (distinct > best) {
+      best = distinct;
+      from = start;
+    }
+  }
+
+  // Cut at spaces so words are not split
+  let to = Math.min(from + SNIPPET_CHARS, content.length);
+  if (from > 0) {
+    const space = content.indexOf(" ", from);
+    if (space !== -1 && space < from + SNIPPET_LEAD) from = space + 1;
+  }
+  if (to < content.length) {
+    const space = content.lastIndexOf(" ", to);
+    if (space > from) to = space;
+  }
+
+  const prefix = from > 0 ? "…" : "";
+  const body = content.slice(from, to).replace(/\s/g, " ");
+  const highlights = matches
+    .filter(match => match.start >= from && match.end <= to)
+    .map(match => ({ start: match.start - from + prefix.length, end: match.end - from + prefix.length }));
+
+  return { snippet: `${prefix}${body}${to < content.length ? "…" : ""}`, highlights };
+}
+
+export async function searchDocuments(ownerId: string, query: string, limit = 10): Promise<SearchResponse> {
+  const count = Math.min(Math.max(limit, 1), MAX_SEARCH_RESULTS);
+  const terms = Array.from(new Set(tokenize(query).map(token => token.term)));
+
+  // Chunks from before documents had ids cannot be opened and are left out
+  const chunks = await getSearchIndex(ownerId, async () =>
+    (await getVectorStore().list({ prefix: vectorIdPrefix(ownerId), filter: ownedBy(ownerId) }))
+      .filter(record => record.metadata.documentId && record.metadata.content)
+  );
+
+  const keyword = keywordScores(chunks, terms);
+  const semantic = await semanticScores(ownerId, query, count * SEMANTIC_CANDIDATES_PER_RESULT);
+
+  // Each kind of score is scaled against the best of its kind before combining
+  const maxKeyword = Math.max(0, ...Array.from(keyword.values()));
+  const maxSemantic = Math.max(0, ...Array.from(semantic?.values() || []));
+  const keywordWeight = semantic ? KEYWORD_WEIGHT : 1;
+
+  const scored = chunks.flatMap(chunk => {
+    const keywordScore = maxKeyword > 0 ? (keyword.get(chunk.id) || 0) / maxKeyword : 0;
+    const semanticScore = semantic && maxSemantic > 0 ? (semantic.get(chunk.id) || 0) / maxSemantic : 0;
+    const score = keywordWeight * keywordScore + (1 - keywordWeight) * semanticScore;
+    return score > 0 ? [{ chunk, score, keywordScore, semanticScore }] : [];
+  });
+  scored.sort((a, b) => b.score - a.score);
+
+  const termSet = new Set(terms);
+  const results = scored.slice(0, count).map(({ chunk, score, keywordScore, semanticScore }): SearchResult => {
+    const { metadata } = chunk;
+    const location = metadata as ChunkLocation;
+    const content = String(metadata.content);
+    return {
+      documentId: String(metadata.documentId),
+      fileName: String(metadata.filename),
+      chunkIndex: Number(metadata.chunkIndex),
+      totalChunks: Number(metadata.totalChunks) || 0,
+      location: describeChunkLocation(location),
+      ...(location.pageStart !== undefined && { pageStart: Number(location.pageStart) }),
+      ...(location.pageEnd !== undefined && { pageEnd: Number(location.pageEnd) }),
+      ...(location.section && { section: String(location.section) }),
+      ...buildSnippet(content, tokenize(content), termSet),
+      score,
+      keywordScore,
+      semanticScore,
+    };
+  });
+
+  return { results, semantic: semantic !== null };
+}
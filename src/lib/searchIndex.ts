@@ -0,0 +1,134 @@
+// src/lib/searchIndex.ts
+
+import { stemmer } from "stemmer";
+import { readJson, toStorageKey, withFileLock, writeJson } from "./storage";
+import type { StoredVector } from "./vectorStore";
+import type { TextRange } from "./sentences";
+
+// Term statistics of each user's stored chunks, so a keyword search does not
+// re-read and re-tokenise every chunk. A document's chunks are indexed when
+// they are stored and dropped with its vectors; a user's index is built from
+// the vector store the first time they search.
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "any", "are", "as", "at", "be", "by", "for", "from", "has", "have", "in", "is", "it",
+  "its", "of", "on", "or", "our", "that", "the", "their", "this", "to", "was", "we", "which", "will", "with",
+]);
+
+export interface Token extends TextRange {
+  term: string;
+}
+
+// Porter stems, so inflected forms match: "indemnities" finds "indemnity",
+// "capped" finds "cap" and "agreed" finds "agree". Chunks and queries are
+// both tokenised here, so they are always stemmed alike.
+function normalizeTerm(word: string): string {
+  return stemmer(word.toLowerCase().replace(/’/g, "'").replace(/'s$/, ""));
+}
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of Array.from(text.matchAll(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu))) {
+    const word = match[0];
+    if (word.length < 2 || STOP_WORDS.has(word.toLowerCase())) continue;
+    const start = match.index ?? 0;
+    tokens.push({ term: normalizeTerm(word), start, end: start + word.length });
+  }
+  return tokens;
+}
+
+export interface IndexedChunk extends StoredVector {
+  // Number of terms in the chunk
+  length: number;
+  // Occurrences of each term; read through termFrequency
+  frequencies: Record<string, number>;
+}
+
+// Bumped whenever tokenising changes, so indexes built the old way are rebuilt
+const SEARCH_INDEX_VERSION = 2;
+
+interface SearchIndex {
+  version: number;
+  // Indexed chunks by document id
+  documents: Record<string, IndexedChunk[]>;
+}
+
+function indexPath(ownerId: string): string {
+  return `search-index/${toStorageKey(ownerId)}.json`;
+}
+
+// The user's index, or null if there is none or it is out of date
+async function readIndex(path: string): Promise<SearchIndex | null> {
+  const index = await readJson<Partial<SearchIndex> | null>(path, null);
+  return index?.version === SEARCH_INDEX_VERSION ? (index as SearchIndex) : null;
+}
+
+function indexChunk(record: StoredVector): IndexedChunk {
+  const tokens = tokenize(String(record.metadata.content));
+  const frequencies = new Map<string, number>();
+  for (const token of tokens) frequencies.set(token.term, (frequencies.get(token.term) || 0) + 1);
+  return { id: record.id, metadata: record.metadata, length: tokens.length, frequencies: Object.fromEntries(frequencies) };
+}
+
+// Own properties only, so terms such as "constructor" are not read from Object
+export function termFrequency(chunk: IndexedChunk, term: string): number {
+  return Object.prototype.hasOwnProperty.call(chunk.frequencies, term) ? chunk.frequencies[term] : 0;
+}
+
+// Index chunks of a document that were just stored, replacing entries with the
+// same ids. Users without an index yet are left to their first search, which
+// reads these chunks from the vector store with the rest.
+export async function addToSearchIndex(ownerId: string, documentId: string, records: StoredVector[]): Promise<void> {
+  if (records.length === 0) return;
+  const path = indexPath(ownerId);
+  await withFileLock(path, async () => {
+    const index = await readIndex(path);
+    if (!index) return;
+    const { documents } = index;
+    const replaced = new Set(records.map(record => record.id));
+    documents[documentId] = [...(documents[documentId] || []).filter(chunk => !replaced.has(chunk.id)), ...records.map(indexChunk)]
+      .sort((a, b) => Number(a.metadata.chunkIndex) - Number(b.metadata.chunkIndex));
+    await writeJson(path, index);
+  });
+}
+
+// Drop a document's chunks, or only those with the given ids
+export async function removeFromSearchIndex(ownerId: string, documentId: string, ids?: string[]): Promise<void> {
+  const path = indexPath(ownerId);
+  await withFileLock(path, async () => {
+    const index = await readIndex(path);
+    if (!index?.documents[documentId]) return;
+    const { documents } = index;
+    const removed = ids && new Set(ids);
+    const remaining = removed ? documents[documentId].filter(chunk => !removed.has(chunk.id)) : [];
+    if (remaining.length > 0) documents[documentId] = remaining;
+    else delete documents[documentId];
+    await writeJson(path, index);
+  });
+}
+
+// Every indexed chunk of the user's, building the index from `listChunks` the
+// first time
+export async function getSearchIndex(
+  ownerId: string,
+  listChunks: () => Promise<StoredVector[]>
+): Promise<IndexedChunk[]> {
+  const path = indexPath(ownerId);
+  const index = await readIndex(path);
+  if (index) return Object.values(index.documents).flat();
+
+  // Built under the lock so a document stored meanwhile is either listed here
+  // or added once the index exists
+  return withFileLock(path, async () => {
+    const existing = await readIndex(path);
+    if (existing) return Object.values(existing.documents).flat();
+
+    const documents: SearchIndex["documents"] = {};
+    for (const record of await listChunks()) {
+      const documentId = String(record.metadata.documentId);
+      (documents[documentId] = documents[documentId] || []).push(indexChunk(record));
+    }
+    await writeJson(path, { version: SEARCH_INDEX_VERSION, documents });
+    return Object.values(documents).flat();
+  });
+}
@@ -0,0 +1,77 @@
+// src/lib/sentences.ts
+
+// Sentence boundaries for chunking documents and reading analyses aloud.
+
+// Sentence-ending punctuation across scripts: Latin, Devanagari danda, CJK
+const SENTENCE_ENDINGS = [".", "!", "?", "\u0964", "\u3002", "\uFF01", "\uFF1F"];
+
+// Abbreviations whose trailing period does not end a sentence
+const ABBREVIATIONS = new Set([
+  "sec", "secs", "art", "arts", "cl", "para", "paras", "sch", "no", "nos", "p", "pp", "vol",
+  "inc", "ltd", "co", "corp", "llc", "plc", "bros", "mr", "mrs", "ms", "dr", "st", "jr", "sr",
+  "vs", "v", "e.g", "i.e", "cf", "approx", "dept", "est", "u.s", "u.k", "jan", "feb", "mar",
+  "apr", "jun", "jul", "aug", "sep", "sept", "oct", "nov", "dec",
+]);
+
+// Whether the punctuation at `index` ends a sentence. Periods inside numbers
+// ("3.1"), initials ("U.S.") and abbreviations ("Sec. 3") do not.
+export function isSentenceEnd(text: string, index: number): boolean {
+  const character = text[index];
+  if (!SENTENCE_ENDINGS.includes(character)) return false;
+  if (character !== ".") return true;
+
+  const next = text[index + 1];
+  if (next !== undefined && !/\s/.test(next)) return false;
+
+  const word = text.slice(Math.max(0, index - 20), index).match(/[\p{L}.]+$/u)?.[0] || "";
+  if (/^\p{Lu}$/u.test(word)) return false;
+  return !ABBREVIATIONS.has(word.toLowerCase());
+}
+
+// A span of text by character offsets, end exclusive
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// The range without leading and trailing whitespace, or null if nothing is left
+export function trimRange(text: string, start: number, end: number): TextRange | null {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return start < end ? { start, end } : null;
+}
+
+// Where each sentence of the text lies. Line breaks also end a sentence, since
+// headings and list items rarely carry closing punctuation.
+export function findSentences(text: string): TextRange[] {
+  const ranges: TextRange[] = [];
+  let start = 0;
+
+  const close = (end: number) => {
+    const range = trimRange(text, start, end);
+    if (range) ranges.push(range);
+    start = end;
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === "\n") {
+      close(index + 1);
+    } else if (isSentenceEnd(text, index)) {
+      // Keep closing quotes and brackets with the sentence they end
+      while (index + 1 < text.length && /["'”’)\]]/.test(text[index + 1])) index++;
+      close(index + 1);
+    }
+  }
+  close(text.length);
+
+  // Numbering such as "1." or "4.2." reads with the sentence that follows it
+  return ranges.reduce<TextRange[]>((merged, range) => {
+    const previous = merged[merged.length - 1];
+    if (previous && !/\p{L}/u.test(text.slice(previous.start, previous.end))) {
+      previous.end = range.end;
+    } else {
+      merged.push(range);
+    }
+    return merged;
+  }, []);
+}
@@ -0,0 +1,115 @@
+// src/lib/speech.ts
+
+// Languages and voices offered for reading analyses aloud, and how text is cut
+// into the short segments the speech service accepts.
+
+import { TextRange, findSentences, trimRange } from "./sentences";
+
+export interface SpeechVoice {
+  id: string;
+  name: string;
+  // Language code sent to the speech service, e.g. "en-uk"
+  locale: string;
+}
+
+export interface SpeechLanguage {
+  // ISO 639-1 code, matching the analysis output languages
+  code: string;
+  name: string;
+  // The first voice is the default
+  voices: SpeechVoice[];
+}
+
+export const SPEECH_LANGUAGES: SpeechLanguage[] = [
+  {
+    code: "en",
+    name: "English",
+    voices: [
+      { id: "us", name: "American", locale: "en-us" },
+      { id: "uk", name: "British", locale: "en-uk" },
+      { id: "au", name: "Australian", locale: "en-au" },
+    ],
+  },
+  {
+    code: "es",
+    name: "Spanish",
+    voices: [
+      { id: "es", name: "Spain", locale: "es-es" },
+      { id: "us", name: "Latin American", locale: "es-us" },
+    ],
+  },
+  { code: "fr", name: "French", voices: [{ id: "fr", name: "French", locale: "fr" }] },
+  { code: "de", name: "German", voices: [{ id: "de", name: "German", locale: "de" }] },
+  { code: "it", name: "Italian", voices: [{ id: "it", name: "Italian", locale: "it" }] },
+  {
+    code: "pt",
+    name: "Portuguese",
+    voices: [
+      { id: "pt", name: "Portugal", locale: "pt" },
+      { id: "br", name: "Brazilian", locale: "pt-br" },
+    ],
+  },
+  { code: "nl", name: "Dutch", voices: [{ id: "nl", name: "Dutch", locale: "nl" }] },
+  { code: "hi", name: "Hindi", voices: [{ id: "hi", name: "Hindi", locale: "hi" }] },
+  { code: "ta", name: "Tamil", voices: [{ id: "ta", name: "Tamil", locale: "ta" }] },
+  { code: "ar", name: "Arabic", voices: [{ id: "ar", name: "Arabic", locale: "ar" }] },
+  { code: "ru", name: "Russian", voices: [{ id: "ru", name: "Russian", locale: "ru" }] },
+  {
+    code: "zh",
+    name: "Chinese",
+    voices: [
+      { id: "cn", name: "Mandarin (China)", locale: "zh-cn" },
+      { id: "tw", name: "Mandarin (Taiwan)", locale: "zh-tw" },
+      { id: "yue", name: "Cantonese", locale: "zh-yue" },
+    ],
+  },
+  { code: "ja", name: "Japanese", voices: [{ id: "ja", name: "Japanese", locale: "ja" }] },
+  { code: "ko", name: "Korean", voices: [{ id: "ko", name: "Korean", locale: "ko" }] },
+];
+
+// Longest text read aloud in one request; a detailed analysis fits comfortably
+export const MAX_SPEECH_CHARS = 30000;
+
+// Longest segment sent to the speech service in one call
+export const MAX_SEGMENT_CHARS = 100;
+
+// The voice for a language, falling back to the language's default voice.
+// Undefined when the language cannot be read aloud.
+export function findSpeechVoice(languageCode: string, voiceId?: string): SpeechVoice | undefined {
+  const language = SPEECH_LANGUAGES.find(entry => entry.code === languageCode.toLowerCase());
+  if (!language) return undefined;
+  return language.voices.find(voice => voice.id === voiceId) || language.voices[0];
+}
+
+// Break a sentence that is too long at the last clause punctuation or space
+// before the limit, or hard at the limit for unbroken text
+function splitLongSentence(text: string, sentence: TextRange, maxLength: number): TextRange[] {
+  const parts: TextRange[] = [];
+  let start = sentence.start;
+
+  while (sentence.end - start > maxLength) {
+    const head = text.slice(start, start + maxLength);
+    const clauseBreak = Math.max(...[",", ";", ":", "—", "、", "，"].map(mark => head.lastIndexOf(mark)));
+    const spaceBreak = head.lastIndexOf(" ");
+    const end = start + (clauseBreak > maxLength / 2 ? clauseBreak + 1 : spaceBreak > 0 ? spaceBreak : maxLength);
+    const part = trimRange(text, start, end);
+    if (part) parts.push(part);
+    start = trimRange(text, end, sentence.end)?.start ?? sentence.end;
+  }
+
+  const rest = trimRange(text, start, sentence.end);
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+// Where each segment read aloud lies in the text: whole sentences, with
+// sentences over the limit broken at clause or word boundaries. The player
+// uses the ranges to highlight the sentence being spoken.
+export function findSpeechSegments(text: string, maxLength: number = MAX_SEGMENT_CHARS): TextRange[] {
+  return findSentences(text).flatMap(sentence => splitLongSentence(text, sentence, maxLength));
+}
+
+// The segments read aloud one after another
+export function splitForSpeech(text: string, maxLength: number = MAX_SEGMENT_CHARS): string[] {
+  return findSpeechSegments(text, maxLength).map(range => text.slice(range.start, range.end));
+}
@@ -0,0 +1,88 @@
+// src/lib/storage.ts
+
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// Root directory for server-side state kept on disk (chat history, jobs, caches)
+export function getDataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), ".data");
+}
+
+// Read a JSON file under the data directory, returning the fallback if it does not exist
+export async function readJson<T>(relativePath: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(getDataDir(), relativePath), "utf-8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw error;
+  }
+}
+
+// Write to a temporary file first so readers never see a half-written file
+async function writeAtomically(relativePath: string, data: string | Uint8Array): Promise<void> {
+  const filePath = path.join(getDataDir(), relativePath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, filePath);
+}
+
+export async function writeJson(relativePath: string, value: unknown): Promise<void> {
+  await writeAtomically(relativePath, JSON.stringify(value, null, 2));
+}
+
+// Read a binary file under the data directory, or null if it does not exist
+export async function readBinary(relativePath: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(path.join(getDataDir(), relativePath));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+export async function writeBinary(relativePath: string, data: Uint8Array): Promise<void> {
+  await writeAtomically(relativePath, data);
+}
+
+// Pending updates per file, so changes to one file run one at a time
+const fileUpdates = new Map<string, Promise<void>>();
+
+// Run `update` once earlier updates of the same file have settled. Every
+// read-modify-write of a stored file goes through here, so two requests
+// changing the file at once do not overwrite each other's changes. `update`
+// must not wait on another update of the same file.
+export async function withFileLock<T>(relativePath: string, update: () => Promise<T>): Promise<T> {
+  const previous = fileUpdates.get(relativePath) || Promise.resolve();
+  const result = previous.then(update);
+  const settled = result.then(() => undefined, () => undefined);
+  fileUpdates.set(relativePath, settled);
+
+  try {
+    return await result;
+  } finally {
+    if (fileUpdates.get(relativePath) === settled) fileUpdates.delete(relativePath);
+  }
+}
+
+// Names, without the extension, of the JSON files in a directory under the
+// data directory; none if the directory does not exist
+export async function listJson(relativeDir: string): Promise<string[]> {
+  try {
+    const names = await fs.readdir(path.join(getDataDir(), relativeDir));
+    return names.filter(name => name.endsWith(".json")).map(name => name.slice(0, -".json".length));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+export async function removeJson(relativePath: string): Promise<void> {
+  await fs.rm(path.join(getDataDir(), relativePath), { force: true });
+}
+
+// Turn an arbitrary key (such as a file name) into a safe file name
+export function toStorageKey(key: string): string {
+  return encodeURIComponent(key).replace(/%/g, "_");
+}
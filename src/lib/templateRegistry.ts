@@ -0,0 +1,114 @@
+// src/lib/templateRegistry.ts
+
+import { randomUUID } from "crypto";
+import { readJson, withFileLock, writeJson } from "./storage";
+import { AnalysisTemplate, BUILT_IN_TEMPLATES, TemplateInput } from "./analysisTemplates";
+
+// Templates added by users are shared by everyone; only the user who created a
+// template can change or delete it, and the built-in templates cannot be changed.
+
+export type TemplateErrorCode = "NOT_FOUND" | "READ_ONLY" | "FORBIDDEN" | "DUPLICATE_NAME";
+
+export class TemplateError extends Error {
+  code: TemplateErrorCode;
+
+  constructor(code: TemplateErrorCode, message: string) {
+    super(message);
+    this.name = "TemplateError";
+    this.code = code;
+  }
+}
+
+const REGISTRY_PATH = "templates.json";
+
+async function readCustomTemplates(): Promise<AnalysisTemplate[]> {
+  return readJson<AnalysisTemplate[]>(REGISTRY_PATH, []);
+}
+
+// Built-in templates first, then user templates in the order they were added
+export async function listTemplates(): Promise<AnalysisTemplate[]> {
+  return [...BUILT_IN_TEMPLATES, ...(await readCustomTemplates())];
+}
+
+export async function getTemplate(templateId: string): Promise<AnalysisTemplate | null> {
+  return (await listTemplates()).find(template => template.id === templateId) || null;
+}
+
+// Readable id from the name, made unique with a random suffix
+function templateId(name: string): string {
+  const slug = name.toLowerCase().normalize("NFKD").replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40);
+  return `${slug || "template"}-${randomUUID().slice(0, 8)}`;
+}
+
+function assertUniqueName(templates: AnalysisTemplate[], name: string, exceptId?: string) {
+  const taken = templates.some(template =>
+    template.id !== exceptId && template.name.toLowerCase() === name.toLowerCase()
+  );
+  if (taken) {
+    throw new TemplateError("DUPLICATE_NAME", `A template named "${name}" already exists`);
+  }
+}
+
+export async function createTemplate(ownerId: string, input: TemplateInput): Promise<AnalysisTemplate> {
+  return withFileLock(REGISTRY_PATH, async () => {
+    const custom = await readCustomTemplates();
+    assertUniqueName([...BUILT_IN_TEMPLATES, ...custom], input.name);
+
+    const now = new Date().toISOString();
+    const template: AnalysisTemplate = {
+      ...input,
+      id: templateId(input.name),
+      version: 1,
+      builtIn: false,
+      createdBy: ownerId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await writeJson(REGISTRY_PATH, [...custom, template]);
+    return template;
+  });
+}
+
+// Find a user template the caller may change, or explain why not
+function editableIndex(custom: AnalysisTemplate[], ownerId: string, templateId: string): number {
+  if (BUILT_IN_TEMPLATES.some(template => template.id === templateId)) {
+    throw new TemplateError("READ_ONLY", "Built-in templates cannot be changed");
+  }
+  const index = custom.findIndex(template => template.id === templateId);
+  if (index === -1) {
+    throw new TemplateError("NOT_FOUND", "Template not found");
+  }
+  if (custom[index].createdBy !== ownerId) {
+    throw new TemplateError("FORBIDDEN", "Only the user who created this template can change it");
+  }
+  return index;
+}
+
+export async function updateTemplate(ownerId: string, templateId: string, input: TemplateInput): Promise<AnalysisTemplate> {
+  return withFileLock(REGISTRY_PATH, async () => {
+    const custom = await readCustomTemplates();
+    const index = editableIndex(custom, ownerId, templateId);
+    assertUniqueName([...BUILT_IN_TEMPLATES, ...custom], input.name, templateId);
+
+    const updated: AnalysisTemplate = {
+      ...custom[index],
+      ...input,
+      version: custom[index].version + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    custom[index] = updated;
+    await writeJson(REGISTRY_PATH, custom);
+    return updated;
+  });
+}
+
+export async function deleteTemplate(ownerId: string, templateId: string): Promise<AnalysisTemplate> {
+  return withFileLock(REGISTRY_PATH, async () => {
+    const custom = await readCustomTemplates();
+    const index = editableIndex(custom, ownerId, templateId);
+
+    const [removed] = custom.splice(index, 1);
+    await writeJson(REGISTRY_PATH, custom);
+    return removed;
+  });
+}
@@ -0,0 +1,166 @@
+// src/lib/tts.ts
+
+import { createHash } from "crypto";
+import gTTS from "gtts";
+import { readBinary, readJson, writeBinary, writeJson } from "./storage";
+import { MAX_SPEECH_CHARS, SpeechVoice, findSpeechVoice, splitForSpeech } from "./speech";
+
+// Text is read aloud through Google's translate speech endpoint, one short
+// segment per call, and the MP3 parts are sent back in order as they arrive.
+// Finished audio is cached under a hash of the segments and the voice, so
+// playing an analysis again costs nothing and no two requests share a file.
+
+export type SpeechErrorCode = "EMPTY_TEXT" | "TEXT_TOO_LONG" | "UNSUPPORTED_LANGUAGE" | "UPSTREAM_FAILED";
+
+export class SpeechError extends Error {
+  code: SpeechErrorCode;
+
+  constructor(code: SpeechErrorCode, message: string) {
+    super(message);
+    this.name = "SpeechError";
+    this.code = code;
+  }
+}
+
+export interface SpeechRequest {
+  text: string;
+  language: string;
+  // Voice id within the language; the language's default voice if omitted
+  voice?: string;
+}
+
+export interface SpeechAudio {
+  stream: ReadableStream<Uint8Array>;
+  voice: SpeechVoice;
+  cached: boolean;
+  // Length in bytes, and of each segment's audio in order; known up front only
+  // for cached audio
+  size?: number;
+  segmentBytes?: number[];
+}
+
+// Bump when segmentation or the upstream request changes so older audio is not reused
+const CACHE_VERSION = 1;
+
+// Segments requested ahead of the one being sent
+const PREFETCH_SEGMENTS = 4;
+
+const SEGMENT_TIMEOUT_MS = 15000;
+
+async function fetchSegment(segment: string, index: number, total: number, locale: string): Promise<Uint8Array> {
+  const speech = new gTTS(segment, locale);
+  const payload = { ...speech.getPayload(segment, index), total };
+  const query = new URLSearchParams(Object.entries(payload).map(([key, value]) => [key, String(value)]));
+
+  let response: Response;
+  try {
+    response = await fetch(`${speech.GOOGLE_TTS_URL}?${query}`, {
+      headers: speech.getHeader(),
+      signal: AbortSignal.timeout(SEGMENT_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new SpeechError(
+      "UPSTREAM_FAILED",
+      `Speech service unreachable: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+
+  // Rate limiting comes back as an HTML page, which must not end up in the audio
+  if (!response.ok || !response.headers.get("content-type")?.startsWith("audio/")) {
+    throw new SpeechError("UPSTREAM_FAILED", `Speech service returned ${response.status} for part ${index + 1} of ${total}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+// Audio for each segment in order, with a few segments in flight at a time
+async function* fetchSegments(segments: string[], locale: string): AsyncGenerator<Uint8Array> {
+  const pending: Promise<Uint8Array>[] = [];
+  let next = 0;
+
+  while (next < segments.length || pending.length > 0) {
+    while (next < segments.length && pending.length < PREFETCH_SEGMENTS) {
+      const audio = fetchSegment(segments[next], next, segments.length, locale);
+      // A failure is raised when its segment's turn comes; until then it must not go unhandled
+      audio.catch(() => undefined);
+      pending.push(audio);
+      next++;
+    }
+
+    const audio = pending.shift();
+    if (audio) yield await audio;
+  }
+}
+
+function streamOf(data: Uint8Array): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(data);
+      controller.close();
+    },
+  });
+}
+
+export async function synthesizeSpeech({ text, language, voice: voiceId }: SpeechRequest): Promise<SpeechAudio> {
+  const voice = findSpeechVoice(language, voiceId);
+  if (!voice) {
+    throw new SpeechError("UNSUPPORTED_LANGUAGE", `Reading aloud is not available for language "${language}"`);
+  }
+  if (text.length > MAX_SPEECH_CHARS) {
+    throw new SpeechError("TEXT_TOO_LONG", `Text is too long to read aloud. Maximum length is ${MAX_SPEECH_CHARS} characters.`);
+  }
+
+  const segments = splitForSpeech(text);
+  if (segments.length === 0) {
+    throw new SpeechError("EMPTY_TEXT", "No text to read aloud");
+  }
+
+  const hash = createHash("sha256").update(JSON.stringify([CACHE_VERSION, voice.locale, segments])).digest("hex");
+  const cachePath = `tts/${hash}.mp3`;
+  const segmentsPath = `tts/${hash}.json`;
+  const cachedAudio = await readBinary(cachePath);
+  if (cachedAudio) {
+    const { segmentBytes } = await readJson<{ segmentBytes?: number[] }>(segmentsPath, {});
+    return { stream: streamOf(cachedAudio), voice, cached: true, size: cachedAudio.length, segmentBytes };
+  }
+
+  const parts = fetchSegments(segments, voice.locale);
+  // Wait for the first part so an unreachable service is reported as an error
+  // rather than as an empty audio stream
+  const first = await parts.next();
+  const received: Uint8Array[] = [];
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (first.done) return;
+      received.push(first.value);
+      controller.enqueue(first.value);
+    },
+    async pull(controller) {
+      try {
+        const { value, done } = await parts.next();
+        if (!done) {
+          received.push(value);
+          controller.enqueue(value);
+          return;
+        }
+
+        controller.close();
+        // Only complete audio is cached. The segment sizes go first so cached
+        // audio always has them.
+        try {
+          await writeJson(segmentsPath, { segmentBytes: received.map(part => part.length) });
+          await writeBinary(cachePath, Buffer.concat(received));
+        } catch (error) {
+          console.error("Failed to cache speech audio:", error);
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await parts.return(undefined);
+    },
+  });
+
+  return { stream, voice, cached: false };
+}
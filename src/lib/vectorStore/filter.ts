@@ -0,0 +1,40 @@
+// src/lib/vectorStore/filter.ts
+
+import type { FilterOperator, MetadataFilter, MetadataValue, VectorMetadata } from "./types";
+
+function isOperator(condition: MetadataValue | FilterOperator): condition is FilterOperator {
+  return typeof condition === "object" && condition !== null && !Array.isArray(condition);
+}
+
+function equals(value: MetadataValue | undefined, expected: MetadataValue): boolean {
+  // A list field matches when it contains the expected value, as in Pinecone
+  if (Array.isArray(value) && !Array.isArray(expected)) {
+    return value.includes(String(expected));
+  }
+  return value === expected;
+}
+
+function matchesCondition(value: MetadataValue | undefined, condition: MetadataValue | FilterOperator): boolean {
+  if (!isOperator(condition)) {
+    return equals(value, condition);
+  }
+
+  if (condition.$eq !== undefined && !equals(value, condition.$eq)) return false;
+  if (condition.$ne !== undefined && equals(value, condition.$ne)) return false;
+  if (condition.$in && !condition.$in.some(expected => equals(value, expected))) return false;
+  if (condition.$nin && condition.$nin.some(expected => equals(value, expected))) return false;
+
+  const numeric = typeof value === "number" ? value : undefined;
+  if (condition.$gt !== undefined && !(numeric !== undefined && numeric > condition.$gt)) return false;
+  if (condition.$gte !== undefined && !(numeric !== undefined && numeric >= condition.$gte)) return false;
+  if (condition.$lt !== undefined && !(numeric !== undefined && numeric < condition.$lt)) return false;
+  if (condition.$lte !== undefined && !(numeric !== undefined && numeric <= condition.$lte)) return false;
+
+  return true;
+}
+
+// Evaluate a metadata filter locally, for stores that cannot filter server-side
+export function matchesFilter(metadata: VectorMetadata, filter?: MetadataFilter): boolean {
+  if (!filter) return true;
+  return Object.entries(filter).every(([field, condition]) => matchesCondition(metadata[field], condition));
+}
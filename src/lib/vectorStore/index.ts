@@ -0,0 +1,39 @@
+// src/lib/vectorStore/index.ts
+
+import path from "path";
+import { createLocalVectorStore } from "./local";
+import { createPineconeVectorStore } from "./pinecone";
+import { VectorStore, VectorStoreError } from "./types";
+
+export * from "./types";
+export { matchesFilter } from "./filter";
+
+let store: VectorStore | null = null;
+
+// Pick the store from VECTOR_STORE ("pinecone" or "local"). Without Pinecone
+// credentials the local file-backed store is used, so the app runs offline.
+export function getVectorStore(): VectorStore {
+  if (store) return store;
+
+  const backend = process.env.VECTOR_STORE || (process.env.PINECONE_API_KEY ? "pinecone" : "local");
+
+  if (backend === "pinecone") {
+    const apiKey = process.env.PINECONE_API_KEY;
+    const indexName = process.env.PINECONE_INDEX_NAME;
+    if (!apiKey || !indexName) {
+      throw new VectorStoreError(
+        "Pinecone is not configured.",
+        "Set PINECONE_API_KEY and PINECONE_INDEX_NAME, or set VECTOR_STORE=local to use the on-disk store."
+      );
+    }
+    store = createPineconeVectorStore(apiKey, indexName);
+  } else if (backend === "local") {
+    store = createLocalVectorStore(
+      process.env.LOCAL_VECTOR_STORE_PATH || path.join(process.cwd(), ".data", "vectors.json")
+    );
+  } else {
+    throw new VectorStoreError(`Unknown vector store '${backend}'.`, "Set VECTOR_STORE to 'pinecone' or 'local'.");
+  }
+
+  return store;
+}
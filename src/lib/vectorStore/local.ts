@@ -0,0 +1,103 @@
+// src/lib/vectorStore/local.ts
+
+import { promises as fs } from "fs";
+import path from "path";
+import { matchesFilter } from "./filter";
+import type {
+  DeleteOptions,
+  ListOptions,
+  QueryOptions,
+  StoredVector,
+  VectorMatch,
+  VectorRecord,
+  VectorStore,
+} from "./types";
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// Vector store kept in a single JSON file, for offline development and tests
+export function createLocalVectorStore(filePath: string): VectorStore {
+  let records: Map<string, VectorRecord> | null = null;
+  // Serialises writes so concurrent requests never interleave file updates
+  let pending: Promise<void> = Promise.resolve();
+
+  const load = async (): Promise<Map<string, VectorRecord>> => {
+    if (records) return records;
+    try {
+      const stored: VectorRecord[] = JSON.parse(await fs.readFile(filePath, "utf-8"));
+      records = new Map(stored.map(record => [record.id, record]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      records = new Map();
+    }
+    return records;
+  };
+
+  // Changes a copy and keeps it only once it is on disk, so a failed write
+  // leaves memory matching the file. Each write waits for the last to settle,
+  // not succeed, so one failure does not fail every write after it.
+  const mutate = (change: (current: Map<string, VectorRecord>) => void): Promise<void> => {
+    const run = pending.catch(() => undefined).then(async () => {
+      const next = new Map(await load());
+      change(next);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, JSON.stringify(Array.from(next.values())));
+      records = next;
+    });
+    pending = run;
+    return run;
+  };
+
+  return {
+    async upsert(newRecords: VectorRecord[]) {
+      await mutate(current => {
+        for (const record of newRecords) {
+          current.set(record.id, record);
+        }
+      });
+    },
+
+    async query({ vector, topK, filter }: QueryOptions): Promise<VectorMatch[]> {
+      const current = await load();
+      return Array.from(current.values())
+        .filter(record => matchesFilter(record.metadata, filter))
+        .map(record => ({
+          id: record.id,
+          metadata: record.metadata,
+          score: cosineSimilarity(vector, record.values),
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+    },
+
+    async list({ prefix, filter, limit }: ListOptions = {}): Promise<StoredVector[]> {
+      const current = await load();
+      return Array.from(current.values())
+        .filter(record => (!prefix || record.id.startsWith(prefix)) && matchesFilter(record.metadata, filter))
+        .slice(0, limit)
+        .map(record => ({ id: record.id, metadata: record.metadata }));
+    },
+
+    async delete({ ids, prefix, filter }: DeleteOptions) {
+      await mutate(current => {
+        for (const record of Array.from(current.values())) {
+          const idMatches = (!ids || ids.includes(record.id)) && (!prefix || record.id.startsWith(prefix));
+          if (idMatches && (ids || prefix || filter) && matchesFilter(record.metadata, filter)) {
+            current.delete(record.id);
+          }
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,108 @@
+// src/lib/vectorStore/pinecone.ts
+
+import { Errors, Pinecone } from "@pinecone-database/pinecone";
+import { matchesFilter } from "./filter";
+import {
+  DeleteOptions,
+  ListOptions,
+  QueryOptions,
+  StoredVector,
+  VectorMatch,
+  VectorMetadata,
+  VectorRecord,
+  VectorStore,
+  VectorStoreError,
+} from "./types";
+
+// Pinecone caps how many records a single upsert, fetch or delete may carry
+const BATCH_SIZE = 100;
+
+function batches<T>(items: T[], size: number = BATCH_SIZE): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    result.push(items.slice(i, i + size));
+  }
+  return result;
+}
+
+export function createPineconeVectorStore(apiKey: string, indexName: string): VectorStore {
+  const pinecone = new Pinecone({ apiKey });
+  const index = pinecone.Index(indexName);
+  let indexChecked = false;
+
+  const ensureIndex = async () => {
+    if (indexChecked) return;
+    try {
+      await pinecone.describeIndex(indexName);
+      indexChecked = true;
+    } catch (error) {
+      // Auth and network failures are not a missing index
+      if (!(error instanceof Errors.PineconeNotFoundError)) throw error;
+      throw new VectorStoreError(
+        `Pinecone index not found. Please create an index named '${indexName}' with 768 dimensions in your Pinecone console.`,
+        "Go to https://app.pinecone.io/ and create an index with dimensions: 768, metric: cosine"
+      );
+    }
+  };
+
+  // Serverless indexes can only list by id prefix, so fetch the metadata of the
+  // ids under the prefix a page at a time and filter it here
+  const list = async ({ prefix, filter, limit }: ListOptions = {}): Promise<StoredVector[]> => {
+    await ensureIndex();
+
+    const stored: StoredVector[] = [];
+    let paginationToken: string | undefined;
+    do {
+      const page = await index.listPaginated({ prefix, paginationToken, limit: BATCH_SIZE });
+      const ids = (page.vectors || []).map(vector => vector.id as string);
+      if (ids.length > 0) {
+        const response = await index.fetch(ids);
+        for (const record of Object.values(response.records)) {
+          const metadata = (record.metadata || {}) as VectorMetadata;
+          if (matchesFilter(metadata, filter)) {
+            stored.push({ id: record.id, metadata });
+          }
+        }
+      }
+      paginationToken = page.pagination?.next;
+    } while (paginationToken && (limit === undefined || stored.length < limit));
+
+    return stored.slice(0, limit);
+  };
+
+  return {
+    async upsert(records: VectorRecord[]) {
+      await ensureIndex();
+      for (const batch of batches(records)) {
+        await index.upsert(batch);
+      }
+    },
+
+    async query({ vector, topK, filter }: QueryOptions): Promise<VectorMatch[]> {
+      await ensureIndex();
+      const response = await index.query({
+        vector,
+        topK,
+        includeMetadata: true,
+        ...(filter && { filter }),
+      });
+      return (response.matches || []).map(match => ({
+        id: match.id,
+        score: match.score ?? 0,
+        metadata: (match.metadata || {}) as VectorMetadata,
+      }));
+    },
+
+    list,
+
+    async delete({ ids, prefix, filter }: DeleteOptions) {
+      await ensureIndex();
+      const targets = prefix || filter
+        ? (await list({ prefix, filter })).map(record => record.id).filter(id => !ids || ids.includes(id))
+        : ids || [];
+      for (const batch of batches(targets)) {
+        await index.deleteMany(batch);
+      }
+    },
+  };
+}
@@ -0,0 +1,72 @@
+// src/lib/vectorStore/types.ts
+
+export type MetadataValue = string | number | boolean | string[];
+
+export type VectorMetadata = Record<string, MetadataValue>;
+
+// Pinecone-style metadata filter, e.g. { filename: { $eq: "lease.pdf" } }
+export type FilterOperator = {
+  $eq?: MetadataValue;
+  $ne?: MetadataValue;
+  $in?: (string | number)[];
+  $nin?: (string | number)[];
+  $gt?: number;
+  $gte?: number;
+  $lt?: number;
+  $lte?: number;
+};
+
+export type MetadataFilter = Record<string, MetadataValue | FilterOperator>;
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: VectorMetadata;
+}
+
+export interface StoredVector {
+  id: string;
+  metadata: VectorMetadata;
+}
+
+export interface VectorMatch extends StoredVector {
+  score: number;
+}
+
+export interface QueryOptions {
+  vector: number[];
+  topK: number;
+  filter?: MetadataFilter;
+}
+
+export interface ListOptions {
+  // Only ids starting with this; Pinecone can narrow a listing by id prefix alone
+  prefix?: string;
+  filter?: MetadataFilter;
+  // Stop once this many matching records are found
+  limit?: number;
+}
+
+export interface DeleteOptions {
+  ids?: string[];
+  prefix?: string;
+  filter?: MetadataFilter;
+}
+
+export interface VectorStore {
+  upsert(records: VectorRecord[]): Promise<void>;
+  query(options: QueryOptions): Promise<VectorMatch[]>;
+  list(options?: ListOptions): Promise<StoredVector[]>;
+  delete(options: DeleteOptions): Promise<void>;
+}
+
+// Raised when the backing store is misconfigured or unreachable
+export class VectorStoreError extends Error {
+  details?: string;
+
+  constructor(message: string, details?: string) {
+    super(message);
+    this.name = "VectorStoreError";
+    this.details = details;
+  }
+}
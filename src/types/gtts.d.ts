@@ -0,0 +1,11 @@
+// The package ships without typings. Only the request-building parts are
+// used; audio is fetched by the speech service itself.
+declare module "gtts" {
+  export default class gTTS {
+    constructor(text: string, lang?: string, debug?: boolean);
+    GOOGLE_TTS_URL: string;
+    LANGUAGES: Record<string, string>;
+    getHeader(): Record<string, string>;
+    getPayload(part: string, idx: number): Record<string, string | number>;
+  }
+}
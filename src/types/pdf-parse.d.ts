@@ -0,0 +1,6 @@
+// The package entry point runs a debug harness when bundled, so routes import
+// the library file directly. Reuse the published typings for it.
+declare module "pdf-parse/lib/pdf-parse.js" {
+  import pdf from "pdf-parse";
+  export default pdf;
+}